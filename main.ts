@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import { parseHTML } from "npm:linkedom/worker";
 
 import { parse } from "npm:@babel/parser";
@@ -11,19 +12,177 @@ import _generate from "npm:@babel/generator";
 const traverse = (_traverse as any).default || _traverse;
 const generate = (_generate as any).default || _generate;
 
+type Rendered = string | SafeHtml;
+
 interface Renderable {
-  render: (ctx: RenderContext) => string | SafeHtml;
+  render(ctx: RenderContext): Rendered | Promise<Rendered>;
+  /** Fetches the data passed to `render` as `ctx.data`; may be async. */
+  load?(ctx: Omit<RenderContext, "html" | "data">): unknown;
+}
+
+/**
+ * The data a component's `load` resolves to.
+ * @example
+ * render({ html, data }: RenderContext<LoadedData<this>>) { ... }
+ */
+// deno-lint-ignore no-explicit-any
+type LoadedData<T extends { load(...args: any[]): unknown }> = Awaited<
+  ReturnType<T["load"]>
+>;
+
+type ActionContext = Omit<RenderContext, "html">;
+
+/**
+ * Receives the parsed request body: `FormData` for form submissions, the
+ * decoded value for JSON and the raw text otherwise.
+ */
+type ActionFn = (body: unknown, ctx: ActionContext) => unknown;
+
+/** A page registered with `App.route`, optionally handling other methods. */
+interface Page extends Renderable {
+  post?: ActionFn;
+  put?: ActionFn;
+  patch?: ActionFn;
+  delete?: ActionFn;
+  /** Named form actions, selected with `?/name` in the form's `action`. */
+  actions?: Record<string, ActionFn>;
 }
 
-interface RenderContext {
+export interface RenderContext<Data = unknown> {
   html: Html;
   req: Request;
+  /** What the component's `load` returned, awaited. */
+  data: Data;
+  /** Values captured from dynamic route segments, e.g. `:id` or `*rest`. */
+  params: Params;
+  /** Whether the app runs in dev mode. */
+  dev: boolean;
+  /** Whether template diagnostics fail the render instead of being logged. */
+  strict: boolean;
+  /** The value thrown while rendering, when rendering the error page. */
+  error?: unknown;
+  /** Status, headers and cookies of the response being rendered. */
+  response: PageResponse;
+  /** Stops rendering and redirects to `location`. */
+  redirect: (location: string, status?: RedirectStatus) => never;
+  /** What the page's method handler or form action returned, if one ran. */
+  action?: unknown;
+  /** When rendering a layout, the rendered page or nested layout it wraps. */
+  slot?: SafeHtml;
+  /** The request's CSP nonce, stamped on every script the page emits. */
+  nonce?: string;
+  /** Where component scripts go when they're served as files. */
+  scripts?: ScriptFiles;
+}
+
+type Params = Record<string, string>;
+
+/** The request-scoped part of a `RenderContext`; only `req` is required. */
+type ContextInit =
+  & Pick<RenderContext, "req">
+  & Partial<Omit<RenderContext, "html" | "req">>;
+
+function createContext(init: ContextInit): Omit<RenderContext, "html"> {
+  return {
+    data: undefined,
+    params: {},
+    dev: false,
+    strict: false,
+    response: new PageResponse(),
+    redirect: (location, status) => {
+      throw new Redirect(location, status);
+    },
+    ...init,
+  };
+}
+
+type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+/**
+ * Thrown to stop rendering and redirect the request.
+ * @example
+ * if (!user) throw new Redirect("/login");
+ */
+export class Redirect extends Error {
+  constructor(
+    readonly location: string,
+    readonly status: RedirectStatus = 302,
+  ) {
+    super(`Redirect to ${location}`);
+    this.name = "Redirect";
+  }
+}
+
+interface CookieOptions {
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds. */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions,
+): string {
+  let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+  if (options.path) cookie += `; Path=${options.path}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${options.maxAge}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.httpOnly) cookie += "; HttpOnly";
+  if (options.secure) cookie += "; Secure";
+  if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
+  return cookie;
+}
+
+/**
+ * The status, headers and cookies a page sends with its HTML.
+ * @example
+ * ctx.response.status(201).header("cache-control", "no-store");
+ */
+export class PageResponse {
+  statusCode: number;
+  headers = new Headers({ "content-type": "text/html; charset=utf8" });
+
+  constructor(statusCode = 200) {
+    this.statusCode = statusCode;
+  }
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  header(name: string, value: string): this {
+    this.headers.set(name, value);
+    return this;
+  }
+
+  cookie(name: string, value: string, options: CookieOptions = {}): this {
+    this.headers.append(
+      "set-cookie",
+      serializeCookie(name, value, { path: "/", ...options }),
+    );
+    return this;
+  }
+
+  toResponse(body: BodyInit | null): Response {
+    return new Response(body, {
+      status: this.statusCode,
+      headers: this.headers,
+    });
+  }
 }
 
 type Html = (
   strings: TemplateStringsArray,
   ...values: unknown[]
-) => string | SafeHtml;
+) => SafeHtml | Promise<SafeHtml>;
 
 const astCache = new WeakMap<Function, any>();
 
@@ -49,19 +208,30 @@ interface ExprAnalysis {
   eventName: string | null;
   source: string;
   bodySource: string | null;
+  /** The function's parameter list, e.g. `e` for `(e) => ...`. */
+  paramsSource: string | null;
+  isAsyncFunction: boolean;
+  hasBlockBody: boolean;
+  /** The DOM property of a `bind:value=${this.x}`-style two-way binding. */
+  bindProperty: string | null;
+  /** The compiled row template of an `each(...)` list. */
+  each: EachTemplate | null;
+  /** The compiled branches of a conditional block. */
+  block: BlockTemplate | null;
+  /** Variables from `render` the expression's client code uses. */
+  captures: Capture[];
+  /** The `.map()` call rendering the expression's rows. */
+  map: MapSource | null;
+  /** Patterns in the expression that can't be made to work on the client. */
+  diagnostics: Diagnostic[];
+  /** Where the expression starts in `render`'s source. */
+  location: { line: number; column: number };
   isAsync: boolean;
   promiseSource: string | null;
   thenCallback: string | null;
   catchCallback: string | null;
 }
 
-interface AsyncBinding {
-  id: string;
-  promiseSource: string;
-  thenCallback: string;
-  catchCallback: string | null;
-}
-
 function analyzeAsyncExpression(expr: any): {
   isAsync: boolean;
   promiseSource: string | null;
@@ -102,272 +272,2796 @@ function analyzeAsyncExpression(expr: any): {
   };
 }
 
-type RenderFn = (ctx: RenderContext) => string | SafeHtml;
+/**
+ * An event handler inside a template compiled for the client, such as a
+ * list row or a conditional branch.
+ */
+interface FragmentHandler {
+  /** Attribute marking the handler's element, e.g. `data-zev-0-2`. */
+  attr: string;
+  event: string;
+  params: string;
+  source: string;
+  isAsync: boolean;
+  isBlock: boolean;
+  /** Fields the handler writes, following calls to methods. */
+  writes: string[];
+  /** For `bind:` bindings, the DOM property and the field it writes. */
+  bind?: { property: string; field: string };
+}
 
-export function analyzeRender(renderFn: RenderFn): ExprAnalysis[] {
-  const ast = parse(`class Temp { ${renderFn.toString()} }`, {
-    sourceType: "module",
-    plugins: ["typescript", "decorators"],
-  });
+/** The row template of an `each(items, key, (item) => html`...`)` list. */
+interface EachTemplate {
+  itemsSource: string;
+  keySource: string;
+  /** The row function's parameter list, e.g. `item, i`. */
+  paramsSource: string;
+  /** The row markup as a client-side template literal. */
+  template: string;
+  handlers: FragmentHandler[];
+}
 
-  const results: ExprAnalysis[] = [];
+/** A conditional like `${this.open && html`...`}` whose branches are markup. */
+interface BlockTemplate {
+  /** The expression as client code, with its `html` branches compiled. */
+  source: string;
+  /** Source offsets of the branch templates, by template number. */
+  branches: number[];
+  handlers: FragmentHandler[];
+}
 
-  traverse(ast, {
-    TaggedTemplateExpression(path: any) {
-      const node = path.node;
-      if (node.tag?.name !== "html") return;
+/**
+ * Attribute marking the element of the handler at expression `index` of
+ * compiled template number `template`.
+ */
+function fragmentEventAttr(template: number, index: number): string {
+  return `data-zev-${template}-${index}`;
+}
 
-      const quasis = node.quasi.quasis;
-      const expressions = node.quasi.expressions;
+// deno-lint-ignore no-explicit-any
+function isHtmlTemplate(node: any): boolean {
+  return node?.type === "TaggedTemplateExpression" && node.tag.name === "html";
+}
 
-      expressions.forEach((expr: any, i: number) => {
-        const signals: string[] = [];
-        const writes: string[] = [];
+/** A component's getters and methods, which analysis follows through. */
+interface Members {
+  computed: Computed[];
+  methods: Method[];
+}
 
-        const isFunction = expr.type === "ArrowFunctionExpression" ||
-          expr.type === "FunctionExpression";
+/**
+ * Compiles an `html` template into a client-side template literal. Event
+ * handlers become marker attributes and are collected into `handlers`.
+ */
+function compileTemplate(
+  // deno-lint-ignore no-explicit-any
+  tagged: any,
+  templateNo: number,
+  handlers: FragmentHandler[],
+  { computed, methods }: Members,
+): string {
+  const { quasis, expressions } = tagged.quasi;
+  let template = "";
 
-        // Check for async patterns
-        const asyncInfo = analyzeAsyncExpression(expr);
+  // deno-lint-ignore no-explicit-any
+  expressions.forEach((e: any, i: number) => {
+    const before: string = quasis[i].value.raw;
+    const eventMatch = before.match(/\s(on\w+)=\s*$/);
+    const bindMatch = before.match(/\sbind:(\w+)=$/);
+    const attrMatch = before.match(/\s([\w-]+)=$/);
+    const code = generate(e).code;
 
-        // Walk for this.x references (skip if async - we handle that separately)
-        if (!asyncInfo.isAsync) {
-          traverse(
-            ast,
-            {
-              MemberExpression(innerPath: any) {
-                if (!isDescendant(innerPath.node, expr)) return;
+    if (
+      bindMatch &&
+      e.type === "MemberExpression" &&
+      e.object.type === "ThisExpression" &&
+      !e.computed
+    ) {
+      // The element is set up on mount like a handler, writing input back
+      const attr = fragmentEventAttr(templateNo, i);
+      const property = bindMatch[1];
+      template += `${before.slice(0, bindMatch.index)} ${attr}=""\${__attr("${
+        property === "checked" ? "checked" : "value"
+      }", ${code})}`;
+      handlers.push({
+        attr,
+        event: "oninput",
+        params: "__e",
+        source: property === "checked"
+          ? `${code} = __e.target.checked`
+          : `${code} = typeof ${code} === "number" ? Number(__e.target.${property}) : __e.target.${property}`,
+        isAsync: false,
+        isBlock: false,
+        writes: [e.property.name],
+        bind: { property, field: e.property.name },
+      });
+    } else if (
+      eventMatch &&
+      (e.type === "ArrowFunctionExpression" || e.type === "FunctionExpression")
+    ) {
+      const attr = fragmentEventAttr(templateNo, i);
+      template += `${before.slice(0, eventMatch.index)} ${attr}=""`;
+      const { reads, writes } = thisAccess(e);
+      followMembers(reads, writes, computed, methods);
+      handlers.push({
+        attr,
+        event: eventMatch[1],
+        // deno-lint-ignore no-explicit-any
+        params: e.params.map((param: any) => generate(param).code).join(", "),
+        source: generate(e.body).code,
+        isAsync: e.async,
+        isBlock: e.body.type === "BlockStatement",
+        writes,
+      });
+    } else if (attrMatch) {
+      template += `${before.slice(0, attrMatch.index)}\${__attr("${
+        attrMatch[1]
+      }", ${code})}`;
+    } else {
+      template += `${before}\${__esc(${code})}`;
+    }
+  });
+  template += quasis[quasis.length - 1].value.raw;
 
-                const innerNode = innerPath.node;
-                if (innerNode.object?.type === "ThisExpression") {
-                  const name: string = innerNode.property?.name;
-                  if (!name) return;
+  return `\`${template}\``;
+}
 
-                  const parent = innerPath.parent;
-                  const isWrite = parent?.type === "UpdateExpression" ||
-                    (parent?.type === "AssignmentExpression" &&
-                      parent.left === innerNode);
+/**
+ * Compiles the row template of an `each(...)` call into client code. Only
+ * arrow functions returning an `html` template directly are supported.
+ */
+// deno-lint-ignore no-explicit-any
+function analyzeEach(expr: any, members: Members): EachTemplate | null {
+  if (
+    expr.type !== "CallExpression" ||
+    expr.callee.type !== "Identifier" ||
+    expr.callee.name !== "each" ||
+    expr.arguments.length !== 3
+  ) return null;
+
+  const [items, key, row] = expr.arguments;
+  if (row.type !== "ArrowFunctionExpression" || !isHtmlTemplate(row.body)) {
+    return null;
+  }
 
-                  if (isWrite) writes.push(name);
-                  signals.push(name);
-                }
-              },
-            },
-            path.scope,
-          );
-        }
+  const handlers: FragmentHandler[] = [];
+  return {
+    itemsSource: generate(items).code,
+    keySource: generate(key).code,
+    // deno-lint-ignore no-explicit-any
+    paramsSource: row.params.map((param: any) => generate(param).code)
+      .join(", "),
+    template: compileTemplate(row.body, 0, handlers, members),
+    handlers,
+  };
+}
 
-        const before: string = quasis[i].value.raw;
-        const eventMatch = before.match(/\s(on\w+)=\s*$/);
+/**
+ * Compiles a `cond && html`...`` or `cond ? html`...` : html`...`` expression
+ * into client code that renders the current branch's markup.
+ */
+// deno-lint-ignore no-explicit-any
+function analyzeBlock(expr: any, members: Members): BlockTemplate | null {
+  const branches: number[] = [];
+  const handlers: FragmentHandler[] = [];
 
-        results.push({
-          signals,
-          writes,
-          isFunction,
-          isEvent: isFunction && !!eventMatch,
-          eventName: eventMatch?.[1] || null,
-          source: generate(expr).code,
-          bodySource: isFunction ? generate(expr.body).code : null,
-          isAsync: asyncInfo.isAsync,
-          promiseSource: asyncInfo.promiseSource,
-          thenCallback: asyncInfo.thenCallback,
-          catchCallback: asyncInfo.catchCallback,
-        });
-      });
-    },
-  });
+  // deno-lint-ignore no-explicit-any
+  const compile = (node: any): string => {
+    if (isHtmlTemplate(node)) {
+      branches.push(node.start);
+      const template = compileTemplate(
+        node,
+        branches.length - 1,
+        handlers,
+        members,
+      );
+      return `({ __html: ${template} })`;
+    }
+    if (node.type === "ConditionalExpression") {
+      return `(${generate(node.test).code} ? ${compile(node.consequent)} : ${
+        compile(node.alternate)
+      })`;
+    }
+    if (node.type === "LogicalExpression") {
+      return `(${compile(node.left)} ${node.operator} ${compile(node.right)})`;
+    }
+    return `(${generate(node).code})`;
+  };
 
-  return results;
+  if (
+    expr.type !== "ConditionalExpression" && expr.type !== "LogicalExpression"
+  ) {
+    return null;
+  }
+  const source = compile(expr);
+  return branches.length > 0 ? { source, branches, handlers } : null;
 }
 
-function isRenderable(value: unknown): value is Renderable {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    "render" in value &&
-    typeof (value as Renderable).render === "function"
-  );
+// deno-lint-ignore no-explicit-any
+type RenderFn = (ctx: RenderContext<any>) => Rendered | Promise<Rendered>;
+
+/** A getter on a component, recomputed on the client like a signal. */
+export interface Computed {
+  name: string;
+  /** The getter's body, e.g. `{ return this.count * 2; }`. */
+  bodySource: string;
+  /** Fields and getters the getter reads directly. */
+  reads: string[];
+  /** Fields the getter depends on, following reads of other getters. */
+  signals: string[];
 }
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+
+/** Parses a method, getter or function the way it appears in a class body. */
+// deno-lint-ignore no-explicit-any
+function classMethod(fn: Function): any {
+  return getAst(fn).program.body[0].body.body[0];
 }
 
-// Helper to check if a node is inside another
-function isDescendant(node: any, ancestor: any): boolean {
-  if (!node || !ancestor) return false;
-  if (node.start >= ancestor.start && node.end <= ancestor.end) return true;
-  return false;
+const ARRAY_MUTATORS = new Set([
+  "push",
+  "pop",
+  "shift",
+  "unshift",
+  "splice",
+  "sort",
+  "reverse",
+  "fill",
+  "copyWithin",
+]);
+
+/** The field named by `this.x` or `this["x"]`, or null for other members. */
+// deno-lint-ignore no-explicit-any
+function thisField(node: any): string | null {
+  if (node.object?.type !== "ThisExpression") return null;
+  if (!node.computed) return node.property?.name ?? null;
+  return node.property?.type === "StringLiteral" ? node.property.value : null;
 }
-interface Binding {
-  id: string;
-  signals: string[];
-  source: string;
-  attribute?: string;
+
+/**
+ * Whether a `this.x` member expression is written: assigned, updated, or
+ * changed in place through `this.x[i] = ...` or an array method like `push`.
+ */
+// deno-lint-ignore no-explicit-any
+function isWrite(path: any): boolean {
+  const { node, parent } = path;
+  if (parent?.type === "UpdateExpression") return true;
+  if (parent?.type === "AssignmentExpression") return parent.left === node;
+  if (parent?.type !== "MemberExpression" || parent.object !== node) {
+    return false;
+  }
+
+  const grandparent = path.parentPath.parent;
+  if (grandparent?.type === "UpdateExpression") return true;
+  if (grandparent?.type === "AssignmentExpression") {
+    return grandparent.left === parent;
+  }
+  return grandparent?.type === "CallExpression" &&
+    grandparent.callee === parent &&
+    ARRAY_MUTATORS.has(parent.property?.name);
 }
 
-interface Handler {
-  id: string;
-  event: string;
-  source: string;
+/** Collects the `this.x` fields read and written inside a node. */
+// deno-lint-ignore no-explicit-any
+function thisAccess(node: any): { reads: string[]; writes: string[] } {
+  const reads = new Set<string>();
+  const writes = new Set<string>();
+  traverse(node, {
+    noScope: true,
+    MemberExpression(path: any) {
+      const name = thisField(path.node);
+      if (!name) return;
+
+      if (isWrite(path)) writes.add(name);
+      reads.add(name);
+    },
+  });
+  return { reads: [...reads], writes: [...writes] };
+}
+
+/** A component method called from the template, shipped to the client. */
+export interface Method {
+  name: string;
+  isAsync: boolean;
+  isGenerator: boolean;
+  paramsSource: string;
+  bodySource: string;
+  /** Fields, getters and methods the method reads or calls directly. */
+  reads: string[];
+  /** Fields the method writes directly. */
   writes: string[];
 }
 
-export function generateScript(
-  instance: Renderable,
-  bindings: Binding[],
-  handlers: Handler[],
-  asyncBindings: AsyncBinding[] = [],
-): string {
-  const allSignals = new Set<string>();
-  bindings.forEach((b) => b.signals.forEach((s) => allSignals.add(s)));
-  handlers.forEach((h) => h.writes.forEach((s) => allSignals.add(s)));
+const NON_CLIENT_METHODS = new Set(["constructor", "render", "load"]);
 
-  let script = "\n<script>\n(function() {\n";
+/** Finds the methods along a component class's prototype chain. */
+export function analyzeMethods(
+  componentClass: { prototype: object },
+): Method[] {
+  const methods = new Map<string, Method>();
 
-  // Declare signals
-  for (const signal of allSignals) {
-    // deno-lint-ignore no-explicit-any
-    script += `  let ${signal} = ${
-      JSON.stringify((instance as any)[signal])
-    };\n`;
+  for (
+    let proto = componentClass.prototype;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (
+      const [name, descriptor] of Object.entries(
+        Object.getOwnPropertyDescriptors(proto),
+      )
+    ) {
+      if (
+        typeof descriptor.value !== "function" ||
+        NON_CLIENT_METHODS.has(name) ||
+        methods.has(name)
+      ) continue;
+
+      const method = classMethod(descriptor.value);
+      methods.set(name, {
+        name,
+        isAsync: method.async,
+        isGenerator: method.generator,
+        paramsSource: method.params
+          // deno-lint-ignore no-explicit-any
+          .map((param: any) => generate(param).code)
+          .join(", "),
+        bodySource: generate(method.body).code,
+        ...thisAccess(method),
+      });
+    }
   }
 
-  // Element refs
-  const allIds = [
-    ...new Set([
-      ...bindings.map((b) => b.id),
-      ...handlers.map((h) => h.id),
-      ...asyncBindings.map((a) => a.id),
-    ]),
-  ];
-  for (const id of allIds) {
-    script += `  const ${id} = document.querySelector('[${ATTR}="${id}"]');\n`;
-  }
+  return [...methods.values()];
+}
 
-  // Update function
-  script += `  function __update() {\n`;
-  for (const b of bindings) {
-    const expr = b.source.replace(/this\./g, "");
-    if (b.attribute) {
-      script += `    ${b.id}.setAttribute("${b.attribute}", ${expr});\n`;
-    } else {
-      script += `    ${b.id}.textContent = ${expr};\n`;
+/**
+ * Adds what the getters and methods in `signals` read and write, following
+ * calls between methods, to `signals` and `writes` in place.
+ */
+function followMembers(
+  signals: string[],
+  writes: string[],
+  computed: Computed[],
+  methods: Method[],
+) {
+  for (let i = 0; i < signals.length; i++) {
+    const getter = computed.find((c) => c.name === signals[i]);
+    const method = methods.find((m) => m.name === signals[i]);
+    for (const read of getter?.reads ?? method?.reads ?? []) {
+      if (!signals.includes(read)) signals.push(read);
+    }
+    for (const write of method?.writes ?? []) {
+      if (!writes.includes(write)) writes.push(write);
     }
   }
-  script += `  }\n`;
+}
 
-  // Event handlers
-  for (const h of handlers) {
-    const body = h.source.replace(/this\./g, "");
-    script += `  ${h.id}.${h.event} = () => { ${body}; __update(); };\n`;
+/** Finds the getters along a component class's prototype chain. */
+export function analyzeGetters(
+  componentClass: { prototype: object },
+): Computed[] {
+  const getters = new Map<string, Omit<Computed, "signals">>();
+
+  for (
+    let proto = componentClass.prototype;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (
+      const [name, descriptor] of Object.entries(
+        Object.getOwnPropertyDescriptors(proto),
+      )
+    ) {
+      if (!descriptor.get || getters.has(name)) continue;
+
+      const method = classMethod(descriptor.get);
+      getters.set(name, {
+        name,
+        bodySource: generate(method.body).code,
+        reads: thisAccess(method).reads,
+      });
+    }
   }
 
-  // Async bindings
-  for (const a of asyncBindings) {
-    const promise = a.promiseSource.replace(/this\./g, "");
-    const thenCb = a.thenCallback.replace(/this\./g, "");
+  const signalsOf = (name: string, seen: Set<string>): string[] => {
+    const getter = getters.get(name);
+    if (!getter) return [name];
+    if (seen.has(name)) return [];
+    seen.add(name);
+    return getter.reads.flatMap((read) => signalsOf(read, seen));
+  };
 
-    script += `  ${promise}\n`;
-    script += `    .then(${thenCb})\n`;
-    script +=
-      `    .then(__html => { ${a.id}.innerHTML = typeof __html === 'object' ? __html.content : __html; })`;
+  return [...getters.values()].map((getter) => ({
+    ...getter,
+    signals: [...new Set(signalsOf(getter.name, new Set()))],
+  }));
+}
 
-    if (a.catchCallback) {
-      const catchCb = a.catchCallback.replace(/this\./g, "");
-      script += `\n    .catch(${catchCb})`;
-      script +=
-        `\n    .then(__html => { if (__html) ${a.id}.innerHTML = typeof __html === 'object' ? __html.content : __html; })`;
-    }
+/**
+ * A function whose variables client code can capture: `render` itself or a
+ * `.map()` callback in it. Captured values are read while rendering, from
+ * the function's arguments or from the holes rendering them, and never by
+ * running its code again.
+ */
+interface Frame {
+  /** Offset of the function in `render`'s source, identifying it. */
+  start: number;
+  /** The function `render` or the `.map()` call sits in, if any. */
+  parent: Frame | null;
+  /** For a `.map()` callback, how the array it's called on is read. */
+  rows: Read | null;
+  /** How each parameter and top-level variable of the function is read. */
+  variables: Record<string, Read>;
+}
 
-    script += `;\n`;
-  }
+/**
+ * Where a captured value is read from: a path into `this`, into one of the
+ * function's arguments or into a variable of the function it's in, or the
+ * hole of one of the function's templates that renders it as is.
+ */
+type Read =
+  | { this: string[] }
+  | { arg: number; path: string[] }
+  | { variable: string; path: string[] }
+  | { template: number; hole: number }
+  | { error: string };
+
+/** A variable from `render` that client code uses. */
+interface Capture {
+  name: string;
+  /** Why the variable can't be captured, known without running `render`. */
+  error?: string;
+}
 
-  script += "})();\n</script>";
+/** The `.map()` call a template expression renders rows with. */
+interface MapSource {
+  /** Offset of the callback, the frame of each row's templates. */
+  callback: number;
+}
 
-  return script;
+/**
+ * Variables `path` reads from the functions it's in: everything but its
+ * own locals, globals, and the `html` tag.
+ */
+// deno-lint-ignore no-explicit-any
+function freeVariables(path: any): Map<string, any> {
+  // deno-lint-ignore no-explicit-any
+  const found = new Map<string, any>();
+  // deno-lint-ignore no-explicit-any
+  const visit = (p: any) => {
+    if (!p.isReferencedIdentifier()) return;
+    if (p.parentPath.isTaggedTemplateExpression() && p.key === "tag") return;
+    const binding = p.scope.getBinding(p.node.name);
+    if (!binding || binding.scope.path.isProgram()) return;
+    if (isDescendant(binding.identifier, path.node)) return;
+    found.set(p.node.name, binding);
+  };
+  visit(path);
+  path.traverse({ Identifier: visit });
+  return found;
 }
-// At the top of the file
-const HTML_MARKER = Symbol("safeHtml");
 
-export interface SafeHtml {
-  [HTML_MARKER]: true;
-  content: string;
-  toString(): string;
+/** Whether `path` is `render` or a callback passed to `.map()`. */
+// deno-lint-ignore no-explicit-any
+function isFrameFunction(path: any): boolean {
+  if (path.isClassMethod()) return true;
+  const call = path.parentPath;
+  return (path.isArrowFunctionExpression() || path.isFunctionExpression()) &&
+    path.listKey === "arguments" && path.key === 0 &&
+    call.isCallExpression() &&
+    call.node.callee.type === "MemberExpression" &&
+    call.node.callee.property.name === "map";
 }
 
-function safeHtml(content: string): SafeHtml {
+/**
+ * Adds how each name a parameter pattern binds is read from `read`, which
+ * reads the whole parameter. Defaults and rest elements need the code run.
+ */
+function patternReads(
+  // deno-lint-ignore no-explicit-any
+  node: any,
+  read: Read,
+  variables: Record<string, Read>,
+) {
+  const at = (key: string): Read =>
+    "path" in read ? { ...read, path: [...read.path, key] } : read;
+  if (node.type === "Identifier") {
+    variables[node.name] = read;
+  } else if (node.type === "ObjectPattern") {
+    for (const prop of node.properties) {
+      if (prop.type === "RestElement") {
+        patternReads(prop.argument, {
+          error: "it's a rest element, which render builds",
+        }, variables);
+      } else if (prop.computed) {
+        patternReads(prop.value, {
+          error: "its key is computed",
+        }, variables);
+      } else {
+        const key = prop.key.name ?? prop.key.value;
+        patternReads(prop.value, at(String(key)), variables);
+      }
+    }
+  } else if (node.type === "ArrayPattern") {
+    // deno-lint-ignore no-explicit-any
+    node.elements.forEach((element: any, i: number) => {
+      if (!element) return;
+      patternReads(
+        element.type === "RestElement" ? element.argument : element,
+        element.type === "RestElement"
+          ? { error: "it's a rest element, which render builds" }
+          : at(String(i)),
+        variables,
+      );
+    });
+  } else if (node.type === "AssignmentPattern") {
+    patternReads(node.left, {
+      error: "it has a default value, which render computes",
+    }, variables);
+  } else if (node.type === "RestElement") {
+    patternReads(node.argument, {
+      error: "it's a rest element, which render builds",
+    }, variables);
+  }
+}
+
+/**
+ * How the array a `.map()` is called on is read: `this.items`, a variable
+ * like `rows`, or a path into one like `data.rows`.
+ */
+// deno-lint-ignore no-explicit-any
+function receiverRead(path: any): Read {
+  const keys: string[] = [];
+  let node = path.node;
+  while (node.type === "MemberExpression") {
+    const key = node.computed ? node.property.value : node.property.name;
+    if (key === undefined) break;
+    keys.unshift(String(key));
+    node = node.object;
+  }
+  if (node.type === "ThisExpression") return { this: keys };
+  const binding = node.type === "Identifier" &&
+    path.scope.getBinding(node.name);
+  if (binding && !binding.scope.path.isProgram()) {
+    return { variable: node.name, path: keys };
+  }
   return {
-    [HTML_MARKER]: true,
-    content,
-    toString() {
-      return content;
-    },
+    error: `its .map() is called on \`${
+      generate(path.node).code
+    }\`, which only render computes; map over a field, getter or variable`,
   };
 }
 
-export function isSafeHtml(value: unknown): value is SafeHtml {
-  return typeof value === "object" && value !== null && HTML_MARKER in value;
+/** The value at `path` in `value`, e.g. `value.a.b` for `["a", "b"]`. */
+function follow(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    // deno-lint-ignore no-explicit-any
+    (object, key) => (object as any)?.[key],
+    value,
+  );
 }
 
-const ATTR = "data-zid"; // or whatever you want to call your framework
-export function createHtmlFactory(
-  page: Renderable,
-  ctx: Omit<RenderContext, "html">,
-  idCounter: { value: number } = { value: 0 },
-): Html {
-  const analysis = analyzeRender(page.render);
+/** Reads the variables of the functions client code captures from. */
+function frameAnalyzer() {
+  // deno-lint-ignore no-explicit-any
+  const frames = new Map<any, Frame>();
 
-  const bindings: Binding[] = [];
-  const handlers: Handler[] = [];
-  const asyncBindings: AsyncBinding[] = [];
-  const elementIds: Map<unknown, string> = new Map();
+  /**
+   * The holes of the templates in `fn` that render one of its variables as
+   * is, preferring those not in a `.map()` callback in it, which only the
+   * templates in that row can read.
+   */
+  // deno-lint-ignore no-explicit-any
+  function holesOf(fn: any): Map<unknown, Read> {
+    const direct = new Map<unknown, Read>();
+    const nested = new Map<unknown, Read>();
+    fn.traverse({
+      // deno-lint-ignore no-explicit-any
+      TaggedTemplateExpression(p: any) {
+        // Templates in other callbacks, like `each` rows, render elsewhere
+        const owner = p.getFunctionParent();
+        if (p.node.tag?.name !== "html" || !isFrameFunction(owner)) return;
+        const holes = owner.node === fn.node ? direct : nested;
+        // deno-lint-ignore no-explicit-any
+        p.get("quasi.expressions").forEach((expr: any, hole: number) => {
+          const binding = expr.isIdentifier() &&
+            expr.scope.getBinding(expr.node.name);
+          if (binding && !holes.has(binding)) {
+            holes.set(binding, { template: p.node.start, hole });
+          }
+        });
+      },
+    });
+    return new Map([...nested, ...direct]);
+  }
+
+  // deno-lint-ignore no-explicit-any
+  function frameOf(path: any): Frame {
+    const fn = isFrameFunction(path) ? path : path.findParent(isFrameFunction);
+    let frame = frames.get(fn.node);
+    if (frame) return frame;
+
+    // A row's item and array are read from the array mapped over
+    const parent = fn.isClassMethod() ? null : frameOf(fn.parentPath);
+    let rows = parent && receiverRead(fn.parentPath.get("callee.object"));
+    if (rows && "variable" in rows) {
+      let read: Read | undefined;
+      for (let f = parent; f && !read; f = f.parent) {
+        read = f.variables[rows.variable];
+      }
+      if (read && "error" in read) {
+        rows = {
+          error:
+            `it's from \`${rows.variable}\`, which can't be read: ${read.error}`,
+        };
+      }
+    }
+    const variables: Record<string, Read> = {};
+    // deno-lint-ignore no-explicit-any
+    fn.node.params.forEach((param: any, arg: number) => {
+      patternReads(
+        param,
+        rows && "error" in rows && arg !== 1 ? rows : { arg, path: [] },
+        variables,
+      );
+    });
+
+    const body = fn.get("body");
+    const declarations = body.isBlockStatement()
+      // deno-lint-ignore no-explicit-any
+      ? body.get("body").filter((s: any) => s.isVariableDeclaration())
+      : [];
+    const declarators = declarations.flatMap(
+      // deno-lint-ignore no-explicit-any
+      (declaration: any) => declaration.get("declarations"),
+    );
+    for (const declarator of declarators) {
+      const isFunction = declarator.node.init?.type.endsWith(
+        "FunctionExpression",
+      );
+      for (const name of Object.keys(declarator.getBindingIdentifiers())) {
+        variables[name] = isFunction
+          ? { error: "functions can't be serialised" }
+          : {
+            error:
+              `only render knows its value; render it as is, like data-${name}=\${${name}}, to send it`,
+          };
+      }
+    }
+
+    // What can't be read otherwise can be from a hole rendering it, unless
+    // it's changed since
+    const holes = holesOf(fn);
+    for (const [name, read] of Object.entries(variables)) {
+      const binding = fn.scope.getBinding(name);
+      if (binding?.constantViolations.length) {
+        variables[name] = { error: "it's reassigned" };
+      } else if ("error" in read && holes.has(binding)) {
+        variables[name] = holes.get(binding)!;
+      }
+    }
+
+    frame = {
+      start: fn.node.start,
+      parent,
+      rows,
+      variables,
+    };
+    frames.set(fn.node, frame);
+    return frame;
+  }
+
+  /** The variables client code compiled from `path` needs from `render`. */
+  // deno-lint-ignore no-explicit-any
+  function capturesOf(path: any): Capture[] {
+    return [...freeVariables(path)].map(([name, binding]) => {
+      if (binding.kind === "hoisted") {
+        return { name, error: "functions can't be serialised" };
+      }
+      const fn = binding.scope.path;
+      const frame = isFrameFunction(fn) ? frameOf(fn) : null;
+      const read = frame?.variables[name];
+      if (!read) {
+        return {
+          name,
+          error:
+            "it isn't a parameter or top-level variable of render or a .map() callback",
+        };
+      }
+      return "error" in read ? { name, error: read.error } : { name };
+    });
+  }
+
+  /** The `.map()` call whose rows `path` renders, if any. */
+  // deno-lint-ignore no-explicit-any
+  function mapOf(path: any): MapSource | null {
+    if (path.isConditionalExpression()) {
+      const maps = [mapOf(path.get("consequent")), mapOf(path.get("alternate"))]
+        .filter((m) => m);
+      return maps.length === 1 ? maps[0] : null;
+    }
+    if (path.isLogicalExpression()) return mapOf(path.get("right"));
+    const callback = path.isCallExpression() && path.get("arguments")[0];
+    if (!callback || !isFrameFunction(callback)) return null;
+    return { callback: callback.node.start };
+  }
+
+  return { frameOf, capturesOf, mapOf };
+}
+
+/** A pattern in a template that can't be made to work on the client. */
+export interface Diagnostic {
+  component: string;
+  /** Where in `render`'s source, both counted from 1. */
+  line: number;
+  column: number;
+  message: string;
+}
+
+/** Thrown when a template has diagnostics and rendering is strict. */
+export class DiagnosticError extends Error {
+  constructor(readonly diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+  }
+}
+
+/** Diagnostics already logged in dev mode, so each is logged once. */
+const loggedDiagnostics = new Set<string>();
+
+/** A diagnostic as a one-line message, e.g. for logs. */
+export function formatDiagnostic(
+  { component, line, column, message }: Diagnostic,
+): string {
+  return `${component} (render ${line}:${column}): ${message}`;
+}
+
+/** Where a node parsed by `analyzeTemplates` starts in `render`'s source. */
+// deno-lint-ignore no-explicit-any
+function renderLocation(node: any): { line: number; column: number } {
+  const { line, column } = node.loc.start;
+  // The first line is preceded by the wrapping `class Temp { `
+  return { line, column: column + 1 - (line === 1 ? 13 : 0) };
+}
+
+/**
+ * Finds patterns in a template expression that would silently break on
+ * the client: event attributes without a function, promise chains other
+ * than `.then()` and `.then().catch()`, calls to methods the component
+ * doesn't have, and handlers using variables that can't be captured.
+ */
+function diagnose(
+  // deno-lint-ignore no-explicit-any
+  path: any,
+  component: string,
+  {
+    eventName,
+    isFunction,
+    isAsync,
+    captures,
+    each,
+    block,
+  }: Pick<
+    ExprAnalysis,
+    "eventName" | "isFunction" | "isAsync" | "captures" | "each" | "block"
+  >,
+  methods: Method[] | null,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  // deno-lint-ignore no-explicit-any
+  const report = (node: any, message: string) =>
+    diagnostics.push({ component, ...renderLocation(node), message });
+
+  if (eventName && !isFunction) {
+    report(
+      path.node,
+      `${eventName} needs a function, like ${eventName}=\${() => ...}`,
+    );
+  }
+
+  const callee = path.node.callee;
+  if (
+    !isAsync && path.isCallExpression() &&
+    callee.type === "MemberExpression" &&
+    ["then", "catch", "finally"].includes(callee.property.name)
+  ) {
+    report(
+      path.node,
+      "only promise.then(...) and promise.then(...).catch(...) are supported in templates",
+    );
+  }
+
+  // The rest only matters for code that runs on the client
+  if (!(eventName && isFunction) && !each && !block) return diagnostics;
+
+  if (methods) {
+    // deno-lint-ignore no-explicit-any
+    const checkCall = (p: any) => {
+      if (!p.isCallExpression()) return;
+      const name = thisField(p.node.callee);
+      if (name && !methods.some((m) => m.name === name)) {
+        report(
+          p.node,
+          `this.${name}() isn't a method of ${component}, so the client can't call it`,
+        );
+      }
+    };
+    checkCall(path);
+    path.traverse({ CallExpression: checkCall });
+  }
+
+  for (const { name, error } of captures) {
+    if (error) report(path.node, `can't capture "${name}": ${error}`);
+  }
+  return diagnostics;
+}
+
+/** The analysis of one `html` template literal in `render`. */
+export interface TemplateAnalysis {
+  /** Offset of the literal in `render`'s source, identifying it. */
+  start: number;
+  /** Where the literal starts in `render`'s source. */
+  location: { line: number; column: number };
+  /** The literal's raw strings, which runtime `html` calls are matched by. */
+  raw: string[];
+  /** Whether the literal sits inside an expression of another template. */
+  nested: boolean;
+  /** The function the literal is in, whose variables it can capture. */
+  frame: Frame;
+  expressions: ExprAnalysis[];
+}
+
+/**
+ * Analyses each expression in the templates of `render` that aren't nested
+ * in another template. See `analyzeTemplates` for every template.
+ */
+export function analyzeRender(
+  renderFn: RenderFn,
+  componentClass?: { prototype: object; name?: string },
+): ExprAnalysis[] {
+  return analyzeTemplates(renderFn, componentClass)
+    .filter((template) => !template.nested)
+    .flatMap((template) => template.expressions);
+}
+
+/**
+ * Analyses each `html` template literal in `render`, in source order, so
+ * nested templates (in `.map` callbacks, ternaries or `Await` props) each
+ * get their own expressions. Given the component class, reads of its
+ * getters and calls to its methods also count as the reads and writes they
+ * make.
+ */
+export function analyzeTemplates(
+  renderFn: RenderFn,
+  componentClass?: { prototype: object; name?: string },
+): TemplateAnalysis[] {
+  const computed = componentClass ? analyzeGetters(componentClass) : [];
+  const methods = componentClass ? analyzeMethods(componentClass) : [];
+  const component = componentClass?.name ?? "component";
+  const ast = getAst(renderFn);
+
+  const templates: TemplateAnalysis[] = [];
+  const frames = frameAnalyzer();
+
+  traverse(ast, {
+    TaggedTemplateExpression(path: any) {
+      const node = path.node;
+      if (node.tag?.name !== "html") return;
+
+      const quasis = node.quasi.quasis;
+      const expressions = node.quasi.expressions;
+      const results: ExprAnalysis[] = [];
+      templates.push({
+        start: node.start,
+        location: renderLocation(node),
+        raw: quasis.map((quasi: any) => quasi.value.raw),
+        nested: !!path.findParent((parent: any) => isHtmlTemplate(parent.node)),
+        frame: frames.frameOf(path),
+        expressions: results,
+      });
+
+      expressions.forEach((expr: any, i: number) => {
+        const exprPath = path.get("quasi.expressions")[i];
+        const signals: string[] = [];
+        const writes: string[] = [];
+
+        const isFunction = expr.type === "ArrowFunctionExpression" ||
+          expr.type === "FunctionExpression";
+
+        // Check for async patterns
+        const asyncInfo = analyzeAsyncExpression(expr);
+
+        // Walk for this.x references (skip if async - we handle that separately)
+        if (!asyncInfo.isAsync) {
+          traverse(
+            ast,
+            {
+              MemberExpression(innerPath: any) {
+                if (!isDescendant(innerPath.node, expr)) return;
+
+                const name = thisField(innerPath.node);
+                if (!name) return;
+
+                if (isWrite(innerPath)) writes.push(name);
+                signals.push(name);
+              },
+            },
+            path.scope,
+          );
+        }
+
+        followMembers(signals, writes, computed, methods);
+
+        const before: string = quasis[i].value.raw;
+        const eventMatch = before.match(/\s(on\w+)=\s*$/);
+
+        // `bind:value=${this.x}` writes user input back into `x`
+        const bindMatch = before.match(/\sbind:(\w+)=\s*$/);
+        // `bind:` bindings inside list rows and block branches write too
+        const each = analyzeEach(expr, { computed, methods });
+        const block = analyzeBlock(expr, { computed, methods });
+        for (const h of [...each?.handlers ?? [], ...block?.handlers ?? []]) {
+          if (h.bind && !writes.includes(h.bind.field)) {
+            writes.push(h.bind.field);
+          }
+        }
+
+        const bindProperty = bindMatch &&
+            expr.type === "MemberExpression" &&
+            expr.object.type === "ThisExpression" &&
+            !expr.computed
+          ? bindMatch[1]
+          : null;
+        if (bindProperty && !writes.includes(expr.property.name)) {
+          writes.push(expr.property.name);
+        }
+
+        const captures = frames.capturesOf(exprPath);
+        const eventName = eventMatch?.[1] || null;
+        const diagnostics = diagnose(exprPath, component, {
+          eventName,
+          isFunction,
+          isAsync: asyncInfo.isAsync,
+          captures,
+          each,
+          block,
+        }, componentClass ? methods : null);
+
+        results.push({
+          signals,
+          writes,
+          isFunction,
+          isEvent: isFunction && !!eventMatch,
+          eventName,
+          source: generate(expr).code,
+          bodySource: isFunction ? generate(expr.body).code : null,
+          paramsSource: isFunction
+            ? expr.params.map((param: any) => generate(param).code).join(", ")
+            : null,
+          isAsyncFunction: isFunction && expr.async,
+          hasBlockBody: isFunction && expr.body.type === "BlockStatement",
+          bindProperty,
+          each,
+          block,
+          captures,
+          map: frames.mapOf(exprPath),
+          diagnostics,
+          location: renderLocation(expr),
+          isAsync: asyncInfo.isAsync,
+          promiseSource: asyncInfo.promiseSource,
+          thenCallback: asyncInfo.thenCallback,
+          catchCallback: asyncInfo.catchCallback,
+        });
+      });
+    },
+  });
+
+  return templates.sort((a, b) => a.start - b.start);
+}
+
+/** Everything `createHtmlFactory` needs to know about a component class. */
+export interface ComponentAnalysis {
+  computed: Computed[];
+  methods: Method[];
+  templates: TemplateAnalysis[];
+  /** Its client code, rewritten ahead of time by `precompile`. */
+  client?: Record<string, unknown>;
+}
+
+/** Analyses by `analysisKey`, as written by `writeAnalysis`. */
+export type PrecompiledAnalysis = Record<string, ComponentAnalysis>;
+
+/** Analyses loaded from disk, used before falling back to Babel. */
+const precompiled = new Map<string, ComponentAnalysis>();
+
+/** An analysis along with the template matched to each `html` call site. */
+interface CachedAnalysis extends ComponentAnalysis {
+  /** The literal each `html` call site is matched to, or why it can't be. */
+  literals: WeakMap<
+    TemplateStringsArray,
+    TemplateAnalysis | Diagnostic[] | undefined
+  >;
+}
+
+/**
+ * Whether literals with the same strings render the same way, so either's
+ * analysis does for both: their expressions are the same, and read their
+ * captures from the same function.
+ */
+function sameTemplate(a: TemplateAnalysis, b: TemplateAnalysis): boolean {
+  const shape = (template: TemplateAnalysis) =>
+    JSON.stringify(
+      template.expressions,
+      (key, value) =>
+        key === "location" || key === "diagnostics" ? undefined : value,
+    );
+  const captures = a.expressions.some((expr) => expr.captures.length > 0);
+  return shape(a) === shape(b) &&
+    (!captures || a.frame.start === b.frame.start);
+}
+
+/** Analyses of the component classes rendered so far. */
+const componentAnalyses = new WeakMap<object, CachedAnalysis>();
+
+/**
+ * Identifies a component class by its name and the source of every member
+ * along its prototype chain, so a saved analysis is only used while the
+ * code it was made from is unchanged.
+ */
+export function analysisKey(
+  componentClass: { prototype: object; name?: string },
+): string {
+  const sources = [componentClass.name ?? ""];
+  for (
+    let proto = componentClass.prototype;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (
+      const [name, { value, get, set }] of Object.entries(
+        Object.getOwnPropertyDescriptors(proto),
+      )
+    ) {
+      sources.push(
+        name,
+        String(value ?? ""),
+        String(get ?? ""),
+        String(set ?? ""),
+      );
+    }
+  }
+  return `${componentClass.name ?? ""}:${contentHash(sources.join("\0"))}`;
+}
+
+/**
+ * Analyses a component class's getters, methods and `render` templates
+ * once, or takes the analysis loaded with `readAnalysis`.
+ */
+export function analyzeComponent(
+  componentClass: { prototype: object; name?: string },
+): CachedAnalysis {
+  let analysis = componentAnalyses.get(componentClass);
+  if (!analysis) {
+    const { computed, methods, templates } =
+      precompiled.get(analysisKey(componentClass)) ?? {
+        computed: analyzeGetters(componentClass),
+        methods: analyzeMethods(componentClass),
+        templates: analyzeTemplates(
+          (componentClass.prototype as Renderable).render,
+          componentClass,
+        ),
+      };
+    analysis = {
+      computed,
+      methods,
+      templates,
+      literals: new WeakMap(),
+    };
+    componentAnalyses.set(componentClass, analysis);
+  }
+  return analysis;
+}
+
+/** Analyses component classes ahead of time, for `readAnalysis` to load. */
+export function precompile(
+  components: Iterable<{ prototype: object; name?: string }>,
+): PrecompiledAnalysis {
+  const saved: PrecompiledAnalysis = {};
+  for (const componentClass of components) {
+    const { computed, methods, templates } = analyzeComponent(componentClass);
+    saved[analysisKey(componentClass)] = {
+      computed,
+      methods,
+      templates,
+      client: rewriteComponent({ computed, methods, templates }),
+    };
+  }
+  return saved;
+}
+
+/** Writes the analyses of component classes to a JSON file. */
+export async function writeAnalysis(
+  path: string | URL,
+  components: Iterable<{ prototype: object; name?: string }>,
+): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify(precompile(components)));
+}
+
+/**
+ * Loads analyses written by `writeAnalysis`, so the components they cover
+ * render without Babel: neither their source nor their client code is
+ * parsed again. Returns false when there's no such file.
+ */
+export async function readAnalysis(path: string | URL): Promise<boolean> {
+  let json: string;
+  try {
+    json = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return false;
+    throw err;
+  }
+  usePrecompiled(JSON.parse(json));
+  return true;
+}
+
+/** Uses saved analyses for the component classes they were made from. */
+export function usePrecompiled(saved: PrecompiledAnalysis) {
+  for (const [key, analysis] of Object.entries(saved)) {
+    precompiled.set(key, analysis);
+    for (const [id, code] of Object.entries(analysis.client ?? {})) {
+      rewritten.set(id, code);
+    }
+  }
+}
+
+function isRenderable(value: unknown): value is Renderable {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "render" in value &&
+    typeof (value as Renderable).render === "function"
+  );
+}
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Helper to check if a node is inside another
+function isDescendant(node: any, ancestor: any): boolean {
+  if (!node || !ancestor) return false;
+  if (node.start >= ancestor.start && node.end <= ancestor.end) return true;
+  return false;
+}
+interface Binding {
+  id: string;
+  signals: string[];
+  source: string;
+  attribute?: string;
+  /**
+   * DOM property to assign instead of an attribute or text. `selectedValues`
+   * selects the options of a `<select multiple>` whose values are in the array.
+   */
+  property?: string;
+  /**
+   * For two-way bindings, client code reading the element's current value
+   * from the input event `__e`.
+   */
+  writeBack?: string;
+  /** For `each(...)` lists, the row template; `id` names its comment markers. */
+  each?: EachTemplate;
+  /** For conditional blocks, the compiled branches; `id` names its markers. */
+  block?: BlockTemplate;
+  /**
+   * For reactive text, the length of the initial text. `id` then names the
+   * comment marking where the text starts rather than an element.
+   */
+  text?: number;
+  /** Values of the variables from `render` that `source` uses. */
+  captures?: Record<string, unknown>;
+}
+
+/** Elements whose content is text only, where comments don't parse. */
+const RCDATA_ELEMENTS = new Set(["textarea", "title"]);
+
+/** Attributes that only set the initial state; the live state is a property. */
+const LIVE_PROPERTIES = new Set(["value", "checked", "selected"]);
+
+/** Attributes holding a URL the browser follows or loads. */
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction"]);
+
+/** URLs that are relative, or use a scheme that can't run script. */
+const SAFE_URL = /^(?:(?:https?|mailto|tel):|[^:/?#]*(?:[/?#]|$))/i;
+
+/**
+ * Keys the URL of an `unsafeUrl` value. It's a registered symbol, so the
+ * client runtime marks URLs the same way, and JSON data can't forge one.
+ */
+const URL_MARKER: unique symbol = Symbol.for("zs.unsafeUrl");
+
+/**
+ * Renders the initial state of a two-way `bind:` binding on a form element
+ * and works out how the client should read user input back.
+ */
+// deno-lint-ignore no-explicit-any
+function bindElement(el: any, property: string, value: unknown) {
+  const tag = el.tagName.toLowerCase();
+  const type = el.getAttribute("type");
+
+  if (property === "checked") {
+    if (value) el.setAttribute("checked", "");
+    else el.removeAttribute("checked");
+    return { property, read: (id: string) => `${id}.checked` };
+  }
+
+  if (tag === "select") {
+    const selected = (Array.isArray(value) ? value : [value]).map(String);
+    for (const option of el.querySelectorAll("option")) {
+      const optionValue = option.getAttribute("value") ?? option.textContent;
+      if (selected.includes(optionValue)) option.setAttribute("selected", "");
+      else option.removeAttribute("selected");
+    }
+    if (el.hasAttribute("multiple")) {
+      return {
+        property: "selectedValues",
+        read: (id: string) =>
+          `Array.from(${id}.selectedOptions, (o) => o.value)`,
+      };
+    }
+  } else if (tag === "textarea") {
+    // linkedom serialises textarea content verbatim, so escape it up front
+    el.textContent = escapeHtml(String(value ?? ""));
+  } else {
+    el.setAttribute(property, String(value ?? ""));
+  }
+
+  const isNumber = typeof value === "number" || type === "number" ||
+    type === "range";
+  return {
+    property,
+    read: (id: string) =>
+      isNumber ? `Number(${id}.${property})` : `${id}.${property}`,
+  };
+}
+
+interface Handler {
+  id: string;
+  event: string;
+  source: string;
+  writes: string[];
+  /** Fields, getters and methods the handler reads or calls. */
+  signals?: string[];
+  /** Parameter list, so handlers like `(e) => ...` receive the DOM event. */
+  params?: string;
+  isAsync?: boolean;
+  /** Whether `source` is a `{ ... }` block rather than an expression. */
+  isBlock?: boolean;
+  /** Values of the variables from `render` that `source` uses. */
+  captures?: Record<string, unknown>;
+}
+
+/** Fields declared with `@app.signal`, per component instance. */
+const signalFields = new WeakMap<object, Set<string>>();
+
+/** Names of the fields declared with `@app.signal` on a component. */
+export function declaredSignals(instance: object): string[] {
+  return [...signalFields.get(instance) ?? []];
+}
+
+/** Orders the getters a set of names reads so dependencies come first. */
+function usedComputed(names: Set<string>, computed: Computed[]): Computed[] {
+  const byName = new Map(computed.map((c) => [c.name, c]));
+  const ordered: Computed[] = [];
+  const visit = (name: string) => {
+    const getter = byName.get(name);
+    if (!getter || ordered.includes(getter)) return;
+    byName.delete(name);
+    getter.reads.forEach(visit);
+    ordered.push(getter);
+  };
+  names.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Client helpers for content found through comment markers. `__text` finds
+ * a reactive text node, splitting it from static text the browser merged it
+ * with, or creating it when it started out empty.
+ */
+const MARKER_RUNTIME = `  function __marker(data) {
+    const w = document.createTreeWalker(document.body, 128);
+    while (w.nextNode()) if (w.currentNode.data === data) return w.currentNode;
+  }
+  function __text(id, length) {
+    const marker = __marker("zt:" + id);
+    const node = marker.nextSibling;
+    if (length === 0) {
+      return marker.parentNode.insertBefore(document.createTextNode(""), node);
+    }
+    if (node.data.length > length) {
+      const rest = document.createTextNode(node.data.slice(length));
+      node.parentNode.insertBefore(rest, node.nextSibling);
+      node.data = node.data.slice(0, length);
+    }
+    return node;
+  }
+`;
+
+/**
+ * Client helpers for URL attributes, matching `sanitizeUrl` and `unsafeUrl`
+ * on the server.
+ */
+const URL_RUNTIME = `  const __unsafe = Symbol.for(${
+  JSON.stringify(URL_MARKER.description)
+});
+  const unsafeUrl = (url) => ({ [__unsafe]: String(url), toString() { return this[__unsafe]; } });
+  const __url = (v) => v?.[__unsafe] ?? (${SAFE_URL}.test(String(v).replace(/[\\0-\\x20]/g, "")) ? String(v) : "unsafe:" + v);
+`;
+
+/**
+ * Client helpers for lists and conditional blocks, whose content sits
+ * between a pair of comment markers. `__anchor` binds the rows the server
+ * rendered; `__list` reconciles the rows with the array, reusing a row while
+ * its key maps to the same item, moving rows into order and removing those
+ * whose key is gone. `__block` and `__patch` swap a block's markup when its
+ * branch renders differently.
+ */
+const FRAGMENT_RUNTIME =
+  `  const __esc = (v) => v == null || v === false || typeof v === "function"
+    ? ""
+    : Array.isArray(v)
+    ? v.map(__esc).join("")
+    : v.__html ?? String(v).replace(/[&<>"']/g, (c) => "&#" + c.charCodeAt(0) + ";");
+  const __attr = (n, v) => {
+    if (v == null || v === false) return "";
+    if (/^on/i.test(n)) throw new TypeError("Refusing to render " + typeof v + " into " + n + ": on* attributes only take functions");
+    return " " + n + '="' + __esc(${
+    JSON.stringify([...URL_ATTRIBUTES])
+  }.includes(n) ? __url(v) : v) + '"';
+  };
+  const html = (s, ...v) => ({ __html: s.reduce((a, c, i) => a + __esc(v[i - 1]) + c) });
+  const __find = (el, sel) => el.matches(sel) ? el : el.querySelector(sel);
+  const __parse = (markup) => {
+    const t = document.createElement("template");
+    t.innerHTML = markup;
+    return t.content;
+  };
+  function __anchor(id, items, key, bind) {
+    const rows = new Map();
+    let i = 0, n = __marker("zl:" + id).nextSibling;
+    for (; n.nodeType !== 8 || n.data !== "/zl:" + id; n = n.nextSibling) {
+      if (n.nodeType !== 1) continue;
+      bind(n, items[i], i);
+      rows.set(key(items[i], i), { item: items[i], el: n });
+      i++;
+    }
+    return { end: n, rows };
+  }
+  function __list(list, items, key, create) {
+    const rows = new Map();
+    let next = list.end;
+    for (let i = items.length - 1; i >= 0; i--) {
+      const k = key(items[i], i);
+      let row = list.rows.get(k);
+      list.rows.delete(k);
+      if (row && row.item !== items[i]) row.el.remove();
+      if (!row || row.item !== items[i]) row = { item: items[i], el: create(items[i], i) };
+      if (row.el.nextSibling !== next) next.parentNode.insertBefore(row.el, next);
+      rows.set(k, row);
+      next = row.el;
+    }
+    for (const row of list.rows.values()) row.el.remove();
+    list.rows = rows;
+  }
+  function __block(id, value, bind) {
+    const block = { start: __marker("zb:" + id), end: __marker("/zb:" + id), markup: __esc(value), bind };
+    bind(block);
+    return block;
+  }
+  function __patch(block, value) {
+    const markup = __esc(value);
+    if (markup === block.markup) return;
+    block.markup = markup;
+    while (block.start.nextSibling !== block.end) block.start.nextSibling.remove();
+    block.end.parentNode.insertBefore(__parse(markup), block.end);
+    block.bind(block);
+  }
+  function __findAll(block, sel, fn) {
+    for (let n = block.start.nextSibling; n !== block.end; n = n.nextSibling) {
+      if (n.nodeType !== 1) continue;
+      if (n.matches(sel)) fn(n);
+      n.querySelectorAll(sel).forEach(fn);
+    }
+  }
+`;
+
+/** TypeScript-only wrappers around a runtime expression. */
+const TS_EXPRESSIONS = new Set([
+  "TSAsExpression",
+  "TSSatisfiesExpression",
+  "TSNonNullExpression",
+  "TSTypeAssertion",
+  "TSInstantiationExpression",
+]);
+
+/** How server code maps onto a component's client script. */
+interface ClientScope {
+  /** The client name of field, getter or method `name`. */
+  rename: (name: string) => string;
+  /** Client code reading the variables captured from `render`. */
+  captures?: Record<string, string>;
+}
+
+// Rewritten client code marks fields and free variables with characters
+// from Unicode's private use area, which generated code doesn't otherwise
+// hold, so it's the same for every naming and captures; `fillClient` then
+// fills them in
+const FIELD_MARK = "\uE000";
+const FREE_MARK = "\uE001";
+const MARKED = new RegExp(
+  `${FIELD_MARK}([^${FIELD_MARK}]*)${FIELD_MARK}|${FREE_MARK}([^${FREE_MARK}]*)${FREE_MARK}`,
+  "g",
+);
+
+/**
+ * Rewrites a parsed piece of server code for the client: `this.x` and
+ * `this["x"]` are marked as fields, variables it doesn't declare as ones
+ * that may be captured, and TypeScript-only syntax is dropped. Functions
+ * other than arrows and `root` keep their own `this`.
+ */
+function rewriteForClient(
+  // deno-lint-ignore no-explicit-any
+  ast: any,
+  // deno-lint-ignore no-explicit-any
+  root: any,
+) {
+  traverse(ast, {
+    Identifier(path: any) {
+      const { name } = path.node;
+      if (path.scope.hasBinding(name) || !path.isReferencedIdentifier()) return;
+      if (path.parentPath.isObjectProperty()) path.parent.shorthand = false;
+      path.replaceWith({
+        type: "Identifier",
+        name: FREE_MARK + name + FREE_MARK,
+      });
+      path.skip();
+    },
+  });
+  traverse(ast, {
+    enter(path: any) {
+      const node = path.node;
+      if (node.type.startsWith("TS") && !TS_EXPRESSIONS.has(node.type)) {
+        path.remove();
+        return;
+      }
+      delete node.typeAnnotation;
+      delete node.returnType;
+      delete node.typeParameters;
+      delete node.typeArguments;
+      if (node.type === "Identifier") node.optional = false;
+    },
+    exit(path: any) {
+      if (TS_EXPRESSIONS.has(path.node.type)) {
+        path.replaceWith(path.node.expression);
+      }
+    },
+    Function(path: any) {
+      if (path.node !== root && !path.isArrowFunctionExpression()) {
+        path.skip();
+      }
+    },
+    Class(path: any) {
+      path.skip();
+    },
+    // Writes notify by themselves, so ones made after an `await`, in a
+    // callback or in a timer still update the page
+    "AssignmentExpression|UpdateExpression|CallExpression"(path: any) {
+      const name = writtenField(path.node);
+      if (!name || path.parentPath.get("callee").node?.name === "__wrote") {
+        return;
+      }
+      path.replaceWith({
+        type: "CallExpression",
+        callee: { type: "Identifier", name: "__wrote" },
+        arguments: [path.node, { type: "StringLiteral", value: name }],
+      });
+    },
+    "MemberExpression|OptionalMemberExpression"(path: any) {
+      const name = thisField(path.node);
+      if (name) {
+        path.replaceWith({
+          type: "Identifier",
+          name: FIELD_MARK + name + FIELD_MARK,
+        });
+      }
+    },
+  });
+}
+
+/**
+ * The field an assignment, update or array mutator call changes through
+ * `this.x`, `this.x[i]` or `this.x.push(...)`, if any.
+ */
+// deno-lint-ignore no-explicit-any
+function writtenField(node: any): string | null {
+  const target = node.type === "AssignmentExpression"
+    ? node.left
+    : node.type === "UpdateExpression"
+    ? node.argument
+    : node.callee?.type === "MemberExpression" &&
+        ARRAY_MUTATORS.has(node.callee.property?.name)
+    ? node.callee.object
+    : null;
+  if (target?.type !== "MemberExpression") return null;
+  if (node.type === "CallExpression") return thisField(target);
+  return thisField(target) ??
+    (target.object?.type === "MemberExpression"
+      ? thisField(target.object)
+      : null);
+}
+
+/**
+ * Client code already rewritten, by what was rewritten, so later renders
+ * skip Babel. Saved analyses bring the code of their components with them.
+ */
+const rewritten = new Map<string, unknown>();
+
+/** The result of `rewrite`, made once per `key` and added to `saved`. */
+function rewriteOnce<T>(
+  key: unknown[],
+  rewrite: () => T,
+  saved?: Record<string, unknown>,
+): T {
+  const id = JSON.stringify(key);
+  if (!rewritten.has(id)) rewritten.set(id, rewrite());
+  if (saved) saved[id] = rewritten.get(id);
+  return rewritten.get(id) as T;
+}
+
+/**
+ * Rewrites all the client code a component's scripts can be made of: its
+ * expressions, handlers, lists, blocks, getters and methods.
+ */
+function rewriteComponent(
+  { computed, methods, templates }: ComponentAnalysis,
+): Record<string, unknown> {
+  const saved: Record<string, unknown> = {};
+  const handler = (h: FragmentHandler) =>
+    rewriteFunction(h.params, h.source, h.isBlock, saved);
+  for (const expr of templates.flatMap((t) => t.expressions)) {
+    rewriteExpression(expr.source, saved);
+    if (expr.bodySource !== null) {
+      rewriteFunction(
+        expr.paramsSource ?? "",
+        expr.bodySource,
+        expr.hasBlockBody,
+        saved,
+      );
+    }
+    if (expr.each) {
+      const { itemsSource, keySource, paramsSource, template } = expr.each;
+      rewriteFunction(paramsSource, template, false, saved);
+      rewriteExpression(keySource, saved);
+      rewriteExpression(itemsSource, saved);
+      expr.each.handlers.forEach(handler);
+    }
+    if (expr.block) {
+      rewriteExpression(expr.block.source, saved);
+      expr.block.handlers.forEach(handler);
+    }
+  }
+  for (const getter of computed) {
+    rewriteFunction("", getter.bodySource, true, saved);
+  }
+  for (const m of methods) {
+    rewriteFunction(m.paramsSource, m.bodySource, true, saved);
+  }
+  return saved;
+}
+
+/**
+ * Rewritten code with `scope`'s names for fields, and its captures for the
+ * variables it captures.
+ */
+function fillClient(code: string, { rename, captures = {} }: ClientScope) {
+  return code.replace(
+    MARKED,
+    (_, field?: string, free?: string) =>
+      field !== undefined
+        ? rename(field)
+        : Object.hasOwn(captures, free!)
+        ? captures[free!]
+        : free!,
+  );
+}
+
+/** Rewrites a server expression for the client. */
+function clientExpression(code: string, scope: ClientScope): string {
+  return fillClient(rewriteExpression(code), scope);
+}
+
+function rewriteExpression(
+  code: string,
+  saved?: Record<string, unknown>,
+): string {
+  return rewriteOnce(["expression", code], () => {
+    const ast = parse(`(${code});`, { plugins: ["typescript"] });
+    // deno-lint-ignore no-explicit-any
+    const statement = ast.program.body[0] as any;
+    rewriteForClient(ast, null);
+    return generate(statement.expression).code;
+  }, saved);
+}
+
+/**
+ * Rewrites a server function's parameters and body for the client. The body
+ * is a `{ ... }` block or, when `isBlock` is false, an expression.
+ */
+function clientFunction(
+  params: string,
+  body: string,
+  isBlock: boolean,
+  scope: ClientScope,
+): { params: string; body: string } {
+  const rewrite = rewriteFunction(params, body, isBlock);
+  return {
+    params: fillClient(rewrite.params, scope),
+    body: fillClient(rewrite.body, scope),
+  };
+}
+
+function rewriteFunction(
+  params: string,
+  body: string,
+  isBlock: boolean,
+  saved?: Record<string, unknown>,
+): { params: string; body: string } {
+  return rewriteOnce(["function", params, body, isBlock], () => {
+    // Parsed as an async generator so `await` and `yield` are allowed
+    const ast = parse(
+      `(async function* __(${params}) ${
+        isBlock ? body : `{ return (${body}); }`
+      });`,
+      { plugins: ["typescript"] },
+    );
+    // deno-lint-ignore no-explicit-any
+    const fn = (ast.program.body[0] as any).expression;
+    rewriteForClient(ast, fn);
+    return {
+      // deno-lint-ignore no-explicit-any
+      params: fn.params.map((param: any) => generate(param).code).join(", "),
+      body: generate(isBlock ? fn.body : fn.body.body[0].argument).code,
+    };
+  }, saved);
+}
+
+/**
+ * Client names for a component's fields, getters and methods: `$x` for
+ * `this.x`, with more `$`s where that would clash with an identifier in
+ * `sources`, so locals, globals and runtime helpers are never shadowed.
+ */
+function clientNames(sources: string[]): (name: string) => string {
+  const taken = new Set(sources.join("\n").match(/[\w$]+/g));
+  const names = new Map<string, string>();
+  return (name) => {
+    let clientName = names.get(name);
+    if (!clientName) {
+      clientName = `$${name}`;
+      while (taken.has(clientName)) clientName = `$${clientName}`;
+      names.set(name, clientName);
+    }
+    return clientName;
+  };
+}
+
+/** `key` appended to the path `path` of a value being encoded. */
+function keyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * `value` as plain JSON data, for `decodeState` to rebuild on the client.
+ * Dates, maps, sets, bigints, `unsafeUrl` URLs, `undefined`, `NaN`, the
+ * infinities and `-0` become `{ $t, v }` tags, as do objects that have a `$t` key of their own.
+ * Class instances are sent as their `toJSON()` when they define one; any
+ * other function, symbol, class instance or circular reference throws,
+ * naming where it sits within `path`.
+ */
+export function encodeState(
+  value: unknown,
+  path = "value",
+  seen = new Set<unknown>(),
+): unknown {
+  const refuse = (what: string) =>
+    new TypeError(`${path} is ${what}, which can't be serialised`);
+  switch (typeof value) {
+    case "undefined":
+      return { $t: "undefined" };
+    case "bigint":
+      return { $t: "BigInt", v: value.toString() };
+    case "number":
+      return Number.isFinite(value) && !Object.is(value, -0)
+        ? value
+        : { $t: "Number", v: Object.is(value, -0) ? "-0" : String(value) };
+    case "function":
+      throw refuse("a function");
+    case "symbol":
+      throw refuse("a symbol");
+    case "string":
+    case "boolean":
+      return value;
+  }
+  if (value === null || typeof value !== "object") return value;
+  if (seen.has(value)) throw refuse("a circular reference");
+  seen.add(value);
+
+  let encoded: unknown;
+  const proto = Object.getPrototypeOf(value);
+  if (Array.isArray(value)) {
+    encoded = Array.from(
+      value,
+      (item, i) => encodeState(item, `${path}[${i}]`, seen),
+    );
+  } else if (value instanceof Date) {
+    encoded = { $t: "Date", v: value.toJSON() };
+  } else if (value instanceof Map) {
+    encoded = {
+      $t: "Map",
+      v: [...value].map(([key, item], i) => [
+        encodeState(key, `${path} key ${i}`, seen),
+        encodeState(item, `${path}.get(${String(key)})`, seen),
+      ]),
+    };
+  } else if (value instanceof Set) {
+    encoded = {
+      $t: "Set",
+      v: [...value].map((item, i) =>
+        encodeState(item, `${path} item ${i}`, seen)
+      ),
+    };
+  } else if (isUnsafeUrl(value)) {
+    encoded = { $t: "UnsafeUrl", v: value[URL_MARKER] };
+  } else if (proto === Object.prototype || proto === null) {
+    const entries = Object.entries(value).map((
+      [key, item],
+    ) => [key, encodeState(item, keyPath(path, key), seen)]);
+    encoded = Object.hasOwn(value, "$t")
+      ? { $t: "Object", v: entries }
+      : Object.fromEntries(entries);
+  } else if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    encoded = encodeState(
+      (value as { toJSON: () => unknown }).toJSON(),
+      path,
+      seen,
+    );
+  } else {
+    throw refuse(`a ${proto.constructor?.name ?? "Object"} instance`);
+  }
+  seen.delete(value);
+  return encoded;
+}
+
+/**
+ * Rebuilds the value `encodeState` encoded into the JSON text `json`. The
+ * client script embeds this function's source, so it must stay
+ * self-contained.
+ */
+export function decodeState(json: string): unknown {
+  const revive = (value: unknown): unknown => {
+    if (value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map(revive);
+    const { $t, v } = value as { $t?: string; v: unknown };
+    const entries = v as [string, unknown][];
+    switch ($t) {
+      case undefined:
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, revive(item)]),
+        );
+      case "undefined":
+        return undefined;
+      case "Number":
+        return Number(v);
+      case "BigInt":
+        return BigInt(v as string);
+      case "Date":
+        return new Date((v as string | null) ?? NaN);
+      case "Map":
+        return new Map(
+          entries.map(([key, item]) => [revive(key), revive(item)]),
+        );
+      case "Set":
+        return new Set((v as unknown[]).map(revive));
+      case "Object":
+        return Object.fromEntries(
+          entries.map(([key, item]) => [key, revive(item)]),
+        );
+      case "UnsafeUrl": {
+        // The shape `unsafeUrl` makes, keyed by the same registered symbol
+        const key = Symbol.for("zs.unsafeUrl");
+        return { [key]: v, toString: () => v };
+      }
+    }
+    throw new TypeError(`Unknown state tag ${$t}`);
+  };
+  return revive(JSON.parse(json));
+}
+
+/**
+ * `value` as a JavaScript string literal that is safe inside an inline
+ * `<script>`: `<` is escaped so no `</script>` or `<!--` can appear.
+ */
+function scriptString(value: string): string {
+  return JSON.stringify(value).replace(
+    /[<\u2028\u2029]/g,
+    (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+}
+
+/** The URL path the client runtime and component scripts are served under. */
+const SCRIPT_PATH = "/_zs/";
+
+/** A short hash naming `text` by its content. */
+function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 20);
+}
+
+/**
+ * Component scripts served as files named by a hash of their code, so pages
+ * need no inline scripts and repeated scripts are cached. Only the most
+ * recent `limit` files are kept.
+ */
+export class ScriptFiles {
+  files = new Map<string, string>();
+
+  constructor(readonly limit = 1000) {}
+
+  /** Stores `code` and returns the path it is served at. */
+  add(code: string): string {
+    const path = `${SCRIPT_PATH}${contentHash(code)}.js`;
+    this.files.delete(path);
+    this.files.set(path, code);
+    if (this.files.size > this.limit) {
+      this.files.delete(this.files.keys().next().value!);
+    }
+    return path;
+  }
+
+  /** The code served at `path`, if it is still kept. */
+  get(path: string): string | undefined {
+    return this.files.get(path);
+  }
+}
+
+/** ` nonce="..."` for a script tag, when there is a nonce. */
+function nonceAttr(nonce?: string): string {
+  return nonce ? ` nonce="${nonce}"` : "";
+}
+
+/** How component scripts are emitted during one request. */
+interface ScriptOptions extends Pick<RenderContext, "nonce" | "scripts"> {
+  /** The runtime and component code already on the page. */
+  sent?: Set<string>;
+  /**
+   * Told about each value that can't be sent, which is then sent as
+   * `undefined`; without it, such values are errors. `captured` is whether
+   * it's a variable from `render` rather than a signal.
+   */
+  unsendable?: (name: string, reason: string, captured: boolean) => void;
+}
+
+/** The error for a value `component`'s client code needs but can't have. */
+function clientError(name: string, component: string, reason: string): Error {
+  return new Error(
+    `Can't send "${name}" to the client in ${component}: ${reason}`,
+  );
+}
+
+/**
+ * Client code assigning a handler to `el`. Block bodies update in `finally`
+ * so an early `return` or a thrown error still re-renders; async handlers
+ * update once settled.
+ */
+function handlerCode(
+  h: Pick<
+    Handler,
+    "event" | "source" | "writes" | "params" | "isAsync" | "isBlock"
+  >,
+  el: string,
+  scope: ClientScope,
+): string {
+  const { params, body } = clientFunction(
+    h.params ?? "",
+    h.source,
+    !!h.isBlock,
+    scope,
+  );
+  const fn = `${h.isAsync ? "async " : ""}(${params}) =>`;
+  const update = updateCall(h.writes);
+  if (h.isBlock) {
+    return `${el}.${h.event} = ${fn} { try ${body} finally { ${update}; } };`;
+  }
+  return `${el}.${h.event} = ${fn} { ${
+    h.isAsync ? `await (${body})` : body
+  }; ${update}; };`;
+}
+
+/**
+ * Client code assigning a compiled template's handler to `el`. Two-way
+ * bindings also set the element's live property first.
+ */
+function fragmentHandler(
+  h: FragmentHandler,
+  el: string,
+  scope: ClientScope,
+): string {
+  const init = h.bind
+    ? `${el}.${h.bind.property} = ${scope.rename(h.bind.field)}; `
+    : "";
+  return init + handlerCode(h, el, scope);
+}
+
+/**
+ * Client code marking the signals a handler writes as changed. A handler
+ * with no known writes marks every signal, in case it changes state the
+ * analysis can't see.
+ */
+function updateCall(writes: string[]): string {
+  return `__update(${writes.map((w) => JSON.stringify(w)).join(", ")})`;
+}
+
+export function generateScript(
+  instance: Renderable,
+  bindings: Binding[],
+  handlers: Handler[],
+  computed: Computed[] = [],
+  methods: Method[] = [],
+  options: ScriptOptions = {},
+): string {
+  // Instances differ in their element ids, so the code names elements by
+  // their position in `__data.ids`, and instances of a component share it
+  const ids = [...new Set([...bindings, ...handlers].map((t) => t.id))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const local = (id: string) => `_${ids.indexOf(id)}`;
+  const idOf = (localId: string) => `__data.ids[${localId.slice(1)}]`;
+  bindings = bindings.map((b) => ({ ...b, id: local(b.id) }));
+  handlers = handlers.map((h) => ({ ...h, id: local(h.id) }));
+
+  const allSignals = new Set<string>(declaredSignals(instance));
+  bindings.forEach((b) => b.signals.forEach((s) => allSignals.add(s)));
+  handlers.forEach((h) => h.writes.forEach((s) => allSignals.add(s)));
+  handlers.forEach((h) => h.signals?.forEach((s) => allSignals.add(s)));
+
+  const used = [...allSignals];
+  followMembers(used, [], computed, methods);
+  used.forEach((s) => allSignals.add(s));
+
+  const getters = usedComputed(allSignals, computed);
+  const clientMethods = methods.filter((m) => allSignals.has(m.name));
+  for (const member of [...getters, ...clientMethods]) {
+    allSignals.delete(member.name);
+  }
+
+  const fragmentHandlers = bindings.flatMap((b) => [
+    ...b.each?.handlers ?? [],
+    ...b.block?.handlers ?? [],
+  ]);
+  const name = clientNames([
+    ...bindings.flatMap((b) => [
+      b.source,
+      b.each?.keySource ?? "",
+      b.each?.paramsSource ?? "",
+      b.each?.template ?? "",
+      b.block?.source ?? "",
+    ]),
+    ...[...handlers, ...fragmentHandlers].map((h) => `${h.params} ${h.source}`),
+    ...getters.map((g) => g.bodySource),
+    ...clientMethods.map((m) => `${m.paramsSource} ${m.bodySource}`),
+  ]);
+  const component = instance.constructor.name;
+  const send = (value: unknown, key: string, captured = false) => {
+    try {
+      return encodeState(value, key);
+    } catch (err) {
+      const reason = (err as Error).message;
+      if (!options.unsendable) throw clientError(key, component, reason);
+      options.unsendable(key, reason, captured);
+    }
+  };
+  // Each binding's and handler's captures are sent in the order the code
+  // first uses them, which doesn't depend on their values
+  const captured: unknown[] = [];
+  const members: ClientScope = { rename: name };
+  const scopes = new Map<object, ClientScope>();
+  const scopeOf = (captures?: Record<string, unknown>): ClientScope => {
+    if (!captures) return members;
+    let scope = scopes.get(captures);
+    if (!scope) {
+      scope = {
+        rename: name,
+        captures: Object.fromEntries(
+          Object.entries(captures).map(([key, value]) => [
+            key,
+            `__data.captured[${captured.push(send(value, key, true)) - 1}]`,
+          ]),
+        ),
+      };
+      scopes.set(captures, scope);
+    }
+    return scope;
+  };
+
+  let script = `  const { ${RUNTIME_EXPORTS.join(", ")} } = __z;\n`;
+
+  // Declare signals, reading their state from the data sent with the script
+  const state: Record<string, unknown> = {};
+  for (const signal of allSignals) {
+    // deno-lint-ignore no-explicit-any
+    state[signal] = send((instance as any)[signal], signal);
+    script += `  let ${name(signal)} = ${keyPath("__data.state", signal)};\n`;
+  }
+
+  // Derived values, recomputed when the signals they read change
+  for (const getter of getters) {
+    const { body } = clientFunction("", getter.bodySource, true, members);
+    script += `  const __get${name(getter.name)} = () => ${body};\n`;
+    script += `  let ${name(getter.name)} = __get${name(getter.name)}();\n`;
+  }
+
+  // Methods called from handlers, bindings and getters
+  for (const m of clientMethods) {
+    const { params, body } = clientFunction(
+      m.paramsSource,
+      m.bodySource,
+      true,
+      members,
+    );
+    script += `  ${m.isAsync ? "async " : ""}function${
+      m.isGenerator ? "*" : ""
+    } ${name(m.name)}(${params}) ${body}\n`;
+  }
+
+  // Element refs
+  const allIds = [
+    ...new Set([
+      ...bindings
+        .filter((b) => !b.each && !b.block && b.text === undefined)
+        .map((b) => b.id),
+      ...handlers.map((h) => h.id),
+    ]),
+  ];
+  for (const id of allIds) {
+    script += `  const ${id} = __byId(${idOf(id)});\n`;
+  }
+
+  // Lists and conditional blocks: markup rendered on the server is adopted,
+  // and new markup is created from the compiled templates
+  const texts = bindings.filter((b) => b.text !== undefined);
+  const lists = bindings.filter((b) => b.each);
+  const blocks = bindings.filter((b) => b.block);
+  texts.forEach((b, i) => {
+    script += `  const ${b.id} = __text(${idOf(b.id)}, __data.text[${i}]);\n`;
+  });
+  for (const b of lists) {
+    const { itemsSource, keySource, paramsSource, template, handlers } = b
+      .each!;
+    const scope = scopeOf(b.captures);
+    const row = clientFunction(paramsSource, template, false, scope);
+    script += `  const __key${b.id} = ${clientExpression(keySource, scope)};\n`;
+    script += `  const __bind${b.id} = (__el, ${row.params}) => {\n`;
+    for (const h of handlers) {
+      script += `    { const __h = __find(__el, "[${h.attr}]"); ${
+        fragmentHandler(h, "__h", scope)
+      } }\n`;
+    }
+    script += `  };\n`;
+    script += `  const __create${b.id} = (...__args) => {\n`;
+    script +=
+      `    const __el = __parse(((${row.params}) => ${row.body})(...__args))
+      .firstElementChild;\n`;
+    script += `    __bind${b.id}(__el, ...__args);\n    return __el;\n  };\n`;
+    script += `  const ${b.id} = __anchor(${idOf(b.id)}, ${
+      clientExpression(itemsSource, scope)
+    }, __key${b.id}, __bind${b.id});\n`;
+  }
+  for (const b of blocks) {
+    const { source, handlers } = b.block!;
+    const scope = scopeOf(b.captures);
+    script += `  const ${b.id} = __block(${idOf(b.id)}, ${
+      clientExpression(source, scope)
+    }, (__b) => {\n`;
+    for (const h of handlers) {
+      script += `    __findAll(__b, "[${h.attr}]", (__h) => { ${
+        fragmentHandler(h, "__h", scope)
+      } });\n`;
+    }
+    script += `  });\n`;
+  }
+
+  // Writes mark their signals dirty; a microtask then recomputes only the
+  // getters and patches only the bindings that depend on a dirty signal
+  const dependsOn = (names: string[]) =>
+    [...new Set(names)]
+      .filter((name) => allSignals.has(name))
+      .map((name) => `__changed.has(${JSON.stringify(name)})`)
+      .join(" || ");
+  script += `  const __dirty = new Set();\n`;
+  script += `  function __wrote(value, signal) {\n`;
+  script += `    __update(signal);\n    return value;\n  }\n`;
+  script += `  function __update(...signals) {\n`;
+  script += `    if (__dirty.size === 0) queueMicrotask(__flush);\n`;
+  script += `    if (signals.length === 0) signals = ${
+    JSON.stringify([...allSignals])
+  };\n`;
+  script += `    for (const s of signals) __dirty.add(s);\n`;
+  script += `  }\n`;
+  script += `  function __flush() {\n`;
+  script += `    const __changed = new Set(__dirty);\n`;
+  script += `    __dirty.clear();\n`;
+  for (const getter of getters) {
+    const deps = dependsOn(getter.signals);
+    if (!deps) continue;
+    script += `    if (${deps}) ${name(getter.name)} = __get${
+      name(getter.name)
+    }();\n`;
+  }
+  for (const b of bindings) {
+    const deps = dependsOn(b.signals);
+    if (!deps) continue;
+    script += `    if (${deps}) `;
+    const scope = scopeOf(b.captures);
+    const expr = (code: string) => clientExpression(code, scope);
+    const value = expr(b.source);
+    if (b.each) {
+      const items = expr(b.each.itemsSource);
+      script += `__list(${b.id}, ${items}, __key${b.id}, __create${b.id});\n`;
+    } else if (b.text !== undefined) {
+      script += `${b.id}.data = ${value};\n`;
+    } else if (b.block) {
+      script += `__patch(${b.id}, ${expr(b.block.source)});\n`;
+    } else if (b.property === "selectedValues") {
+      script +=
+        `for (const o of ${b.id}.options) o.selected = ${value}.includes(o.value);\n`;
+    } else if (b.property) {
+      script += `${b.id}.${b.property} = ${value};\n`;
+    } else if (b.attribute && LIVE_PROPERTIES.has(b.attribute)) {
+      script += `${b.id}.${b.attribute} = ${value};\n`;
+    } else if (b.attribute && URL_ATTRIBUTES.has(b.attribute)) {
+      script += `${b.id}.setAttribute("${b.attribute}", __url(${value}));\n`;
+    } else if (b.attribute) {
+      script += `${b.id}.setAttribute("${b.attribute}", ${value});\n`;
+    } else {
+      script += `${b.id}.textContent = ${value};\n`;
+    }
+  }
+  script += `  }\n`;
+
+  // Event handlers
+  for (const h of handlers) {
+    script += `  ${handlerCode(h, h.id, scopeOf(h.captures))}\n`;
+  }
+
+  // Two-way bindings write user input back into their signal
+  for (const b of bindings) {
+    if (!b.writeBack) continue;
+    const field = b.source.replace(/^this\./, "");
+    script += `  ${b.id}.addEventListener("input", (__e) => { ${
+      name(field)
+    } = ${b.writeBack}; ${updateCall([field])}; });\n`;
+  }
+
+  // Source code can hold "</script>" in a string; "<\/script>" means the same
+  // to JavaScript but doesn't end the element
+  const code = `function (__data, __z) {\n${script}}`
+    .replace(/<\/(script)/gi, "<\\/$1");
+  const key = JSON.stringify(contentHash(code));
+  const data: Record<string, unknown> = { ids };
+  if (allSignals.size > 0) data.state = state;
+  if (texts.length > 0) data.text = texts.map((b) => b.text);
+  if (captured.length > 0) data.captured = captured;
+
+  // The runtime and each component's code are sent once per page; every
+  // instance then sends just its data
+  const { nonce, scripts, sent = new Set<string>() } = options;
+  const inline = (code: string) =>
+    `<script${nonceAttr(nonce)}>${code}</script>`;
+  const push = (...items: string[]) =>
+    `(self.__zq ??= []).push(${items.join(", ")});`;
+  const definition = `[${key}, ${code}]`;
+  const hydration = `[${key}, ${scriptString(JSON.stringify(data))}]`;
+
+  let html = "\n";
+  if (!sent.has(RUNTIME_PATH)) {
+    html += `<script src="${RUNTIME_PATH}" async${nonceAttr(nonce)}></script>`;
+  }
+  if (sent.has(key)) {
+    html += inline(push(hydration));
+  } else if (scripts) {
+    html += `<script src="${scripts.add(push(definition))}"${
+      nonceAttr(nonce)
+    }></script>${inline(push(hydration))}`;
+  } else {
+    html += inline(`\n${push(definition, hydration)}\n`);
+  }
+  sent.add(RUNTIME_PATH).add(key);
+  return html;
+}
+// At the top of the file
+const HTML_MARKER = Symbol("safeHtml");
+
+export interface SafeHtml {
+  [HTML_MARKER]: true;
+  content: string;
+  toString(): string;
+}
+
+function safeHtml(content: string): SafeHtml {
+  return {
+    [HTML_MARKER]: true,
+    content,
+    toString() {
+      return content;
+    },
+  };
+}
+
+export function isSafeHtml(value: unknown): value is SafeHtml {
+  return typeof value === "object" && value !== null && HTML_MARKER in value;
+}
+
+export interface UnsafeUrl {
+  [URL_MARKER]: string;
+  toString(): string;
+}
+
+/**
+ * Marks a URL as trusted, so URL attributes keep it even when its scheme
+ * isn't one `sanitizeUrl` allows. Only use it for URLs you wrote yourself.
+ * @example
+ * html`<a href=${unsafeUrl("javascript:void 0")}>...</a>`
+ */
+export function unsafeUrl(url: string): UnsafeUrl {
+  return {
+    [URL_MARKER]: String(url),
+    toString() {
+      return this[URL_MARKER];
+    },
+  };
+}
+
+function isUnsafeUrl(value: unknown): value is UnsafeUrl {
+  return typeof value === "object" && value !== null &&
+    typeof (value as Partial<UnsafeUrl>)[URL_MARKER] === "string";
+}
+
+/**
+ * `value` for a URL attribute. Relative URLs and http(s), mailto and tel
+ * URLs are kept, as are URLs marked with `unsafeUrl`; anything else gets an
+ * `unsafe:` prefix so following it does nothing.
+ */
+export function sanitizeUrl(value: unknown): string {
+  if (isUnsafeUrl(value)) return value[URL_MARKER];
+  const url = String(value);
+  // Browsers skip whitespace and control characters in the scheme
+  return SAFE_URL.test(url.replace(/[\0-\x20]/g, "")) ? url : `unsafe:${url}`;
+}
+
+/** The error for a value other than a function bound to an `on*` attribute. */
+function eventAttributeError(name: string, value: unknown): TypeError {
+  return new TypeError(
+    `Refusing to render ${typeof value} into ${name}: on* attributes only take functions`,
+  );
+}
+
+/**
+ * `value` escaped as (part of) the value of attribute `name`: URL
+ * attributes are sanitised, and on* attributes refuse it.
+ */
+function attributeValue(name: string | undefined, value: unknown): string {
+  const attr = name?.toLowerCase();
+  if (attr?.startsWith("on")) throw eventAttributeError(attr, value);
+  return escapeHtml(
+    attr && URL_ATTRIBUTES.has(attr) ? sanitizeUrl(value) : String(value),
+  );
+}
+
+const ATTR = "data-zid"; // or whatever you want to call your framework
+
+/**
+ * One call of `html`, linked to the call its result is rendered in so the
+ * variables its client code captures can be read. A `.map()` row also
+ * knows its index, and so its item.
+ */
+interface CallScope {
+  frame: Frame | null;
+  parent?: CallScope;
+  index?: number;
+  map?: MapSource;
+  /** The values of its holes, by template offset and position. */
+  holes?: Map<string, unknown>;
+}
+
+/** A placeholder whose content is streamed once its promise settles. */
+export interface Deferred {
+  id: string;
+  /** Resolves to the rendered fragment; never rejects. */
+  content: Promise<string>;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/**
+ * Promises returned by `html` when a child renders asynchronously. These are
+ * awaited in place, unlike other promises, which are streamed.
+ */
+const asyncHtml = new WeakSet<Promise<SafeHtml>>();
+
+function isAsyncHtml(value: unknown): value is Promise<SafeHtml> {
+  return value instanceof Promise && asyncHtml.has(value);
+}
+
+function joinChunks(
+  chunks: (string | Promise<string>)[],
+): string | Promise<string> {
+  if (!chunks.some(isPromiseLike)) return chunks.join("");
+  return Promise.all(chunks).then((parts) => parts.join(""));
+}
+
+function toContent(result: string | SafeHtml): string {
+  return isSafeHtml(result) ? result.content : result;
+}
+
+/**
+ * Runs a component's `load`, then renders it with the loaded `data`.
+ * Stays synchronous unless `load` or `render` returns a promise.
+ */
+function renderComponent(
+  component: Renderable,
+  init: ContextInit,
+  idCounter: { value: number } = { value: 0 },
+  deferred: Deferred[] = [],
+  sent = new Set<string>(),
+): string | Promise<string> {
+  const ctx = createContext(init);
+  const render = (data: unknown) => {
+    const html = createHtmlFactory(
+      component,
+      { ...ctx, data },
+      idCounter,
+      deferred,
+      sent,
+    );
+    const result = component.render({ html, ...ctx, data });
+    return isPromiseLike(result)
+      ? Promise.resolve(result).then(toContent)
+      : toContent(result);
+  };
+
+  if (!component.load) return render(undefined);
+  const data = component.load(ctx);
+  return isPromiseLike(data)
+    ? Promise.resolve(data).then(render)
+    : render(data);
+}
+
+export function createHtmlFactory(
+  page: Renderable,
+  init: ContextInit,
+  idCounter: { value: number } = { value: 0 },
+  deferred: Deferred[] = [],
+  sent = new Set<string>(),
+): Html {
+  const ctx = createContext(init);
+  const componentClass = page.constructor as { prototype: object };
+  const { computed, methods, templates, literals } = analyzeComponent(
+    componentClass,
+  );
+
+  const bindings: Binding[] = [];
+  const handlers: Handler[] = [];
+  const elementIds: Map<unknown, string> = new Map();
+
+  // Client code from nested templates is generated once the templates
+  // they're rendered in have linked them up, so captures resolve then
+  const component = page.constructor.name;
+  const callScopes = new WeakMap<object, CallScope>();
+  const renderScope: CallScope = { frame: null };
+  const capturing = new Map<
+    Binding | Handler,
+    {
+      scope: CallScope;
+      captures: Capture[];
+      /** Whether the template's diagnostics covered the captures' errors. */
+      diagnosed: boolean;
+    }
+  >();
+
+  /**
+   * Fails the render on diagnostics in strict mode; dev mode logs each one
+   * the first time it's seen.
+   */
+  function report(diagnostics: Diagnostic[]) {
+    if (diagnostics.length === 0) return;
+    if (ctx.strict) throw new DiagnosticError(diagnostics);
+    if (!ctx.dev) return;
+    for (const diagnostic of diagnostics) {
+      const message = formatDiagnostic(diagnostic);
+      if (loggedDiagnostics.has(message)) continue;
+      loggedDiagnostics.add(message);
+      console.warn(message);
+    }
+  }
+
+  /**
+   * Reports a value the client code needs but can't be sent, at the first
+   * expression using it.
+   */
+  function unsendable(name: string, reason: string, captured: boolean) {
+    const expr = templates
+      .flatMap((template) => template.expressions)
+      .find((expr) =>
+        captured
+          ? expr.captures.some((capture) => capture.name === name)
+          : expr.signals.includes(name) || expr.writes.includes(name)
+      );
+    report([{
+      component,
+      ...expr?.location ?? { line: 1, column: 1 },
+      message: `can't send "${name}" to the client: ${reason}`,
+    }]);
+  }
+
+  /** Links the templates rendered into a hole to the call rendering it. */
+  function adopt(value: unknown, scope: CallScope, map: MapSource | null) {
+    const rows = Array.isArray(value) ? value : [value];
+    rows.forEach((row, index) => {
+      const child = typeof row === "object" && row !== null &&
+        callScopes.get(row);
+      if (!child || child.parent) return;
+      child.parent = scope;
+      if (map && Array.isArray(value) && child.frame?.start === map.callback) {
+        child.index = index;
+        child.map = map;
+      }
+    });
+  }
+
+  /**
+   * The value of `name` as seen from `frame`, in the call `scope`, read
+   * from what `render` or its `.map()` rows were called with or rendered.
+   * Throws why when it can't be.
+   */
+  function captured(scope: CallScope, frame: Frame | null, name: string) {
+    for (let f = frame; f; f = f.parent) {
+      const read = f.variables[name];
+      if (read) return readValue(scope, f, read);
+    }
+    throw new Error("it isn't in scope");
+  }
+
+  function readValue(scope: CallScope, frame: Frame, read: Read): unknown {
+    if ("error" in read) throw new Error(read.error);
+    if ("this" in read) return follow(page, read.this);
+    if ("variable" in read) {
+      return follow(captured(scope, frame, read.variable), read.path);
+    }
+
+    // The call of `frame`'s function the scope is in: the render, or the
+    // row of the `.map()` whose callback it is
+    let instance: CallScope | undefined = renderScope;
+    if (frame.parent) {
+      instance = scope;
+      while (instance && instance.map?.callback !== frame.start) {
+        instance = instance.parent;
+      }
+    }
+    if (!instance) {
+      throw new Error("its .map() call isn't rendered directly in a template");
+    }
+
+    if ("template" in read) {
+      const key = `${read.template}:${read.hole}`;
+      for (let s: CallScope | undefined = scope; s; s = s.parent) {
+        if (s.holes?.has(key)) return s.holes.get(key);
+        if (s === instance) break;
+      }
+      if (renderScope.holes?.has(key)) return renderScope.holes.get(key);
+      throw new Error("it's only rendered in templates this one isn't in");
+    }
+
+    let args: unknown[] = [{ html, ...ctx }];
+    if (frame.parent) {
+      const items = readValue(instance.parent!, frame.parent, frame.rows!);
+      if (!Array.isArray(items)) throw new Error("its rows aren't an array");
+      args = [items[instance.index!], instance.index, items];
+    }
+    return follow(args[read.arg], read.path);
+  }
+
+  // Each call site of `html` has its own strings array, matched once per
+  // component class to the literal with the same raw strings. Literals with
+  // the same strings that render differently can't be told apart, so calls
+  // of either get no analysis and report it instead.
+  function templateFor(
+    strings: TemplateStringsArray,
+  ): TemplateAnalysis | undefined {
+    if (!literals.has(strings)) {
+      const key = strings.raw.join("${}");
+      const [first, ...rest] = templates.filter((t) =>
+        t.raw.join("${}") === key
+      );
+      const other = rest.find((t) => !sameTemplate(first, t));
+      literals.set(
+        strings,
+        other
+          ? [{
+            component,
+            ...first.location,
+            message:
+              `this html literal has the same markup as the one at ${other.location.line}:${other.location.column}, so they can't be told apart; make their markup differ`,
+          }]
+          : first,
+      );
+    }
+    const match = literals.get(strings);
+    if (!Array.isArray(match)) return match;
+    report(match);
+    return undefined;
+  }
+
+  // Nested templates render before the template they're in, so their
+  // handlers and bindings wait for the outermost template's script. Only
+  // templates rendered after it, like streamed ones, get their own script.
+  const emitted = { handlers: 0, bindings: 0, root: false };
+
+  // deno-lint-ignore no-explicit-any
+  const { document } = parseHTML(
+    "<!DOCTYPE html><html><body></body></html>",
+  ) as any;
+
+  function renderValue(value: unknown): string | Promise<string> {
+    if (isSafeHtml(value)) return value.content;
+    if (isAsyncHtml(value)) return value.then((result) => result.content);
+    if (isRenderable(value)) {
+      return renderComponent(
+        value,
+        { ...ctx, slot: undefined, data: undefined },
+        idCounter,
+        deferred,
+        sent,
+      );
+    }
+    if (Array.isArray(value)) return joinChunks(value.map(renderValue));
+    if (value instanceof Each) return renderRows(value);
+    if (value === false || value === null || value === undefined) return "";
+    const temp = document.createElement("div");
+    temp.textContent = String(value);
+    return temp.innerHTML;
+  }
+
+  // While rendering the rows of an `each(...)` list, `html` renders static
+  // markup; the client re-renders rows from the compiled row template. The
+  // branches of conditional blocks are matched by their literal instead.
+  let rowDepth = 0;
+  const branchTemplates = new Map<number, number>();
+  for (const template of templates) {
+    for (const expr of template.expressions) {
+      expr.block?.branches.forEach((start, i) => branchTemplates.set(start, i));
+    }
+  }
+
+  function renderRows(list: Each<unknown>): string | Promise<string> {
+    rowDepth++;
+    try {
+      return joinChunks(
+        list.items.map((item, i) => renderValue(list.template(item, i))),
+      );
+    } finally {
+      rowDepth--;
+    }
+  }
+
+  /**
+   * Renders a list row or block branch, marking its event handlers the way
+   * the client-side compiled template `templateNo` does.
+   */
+  function renderFragment(
+    strings: TemplateStringsArray,
+    values: unknown[],
+    templateNo: number,
+  ): SafeHtml | Promise<SafeHtml> {
+    const chunks: (string | Promise<string>)[] = [];
+    // The template's own markup so far, to tell whether a value is in a tag
+    let markup = "";
+    strings.forEach((str, i) => {
+      markup += str;
+      if (i >= values.length) return chunks.push(str);
+
+      const value = values[i];
+      const eventMatch = str.match(/\s(on\w+)=\s*$/);
+      const bindMatch = str.match(/\sbind:(\w+)=$/);
+      const attrMatch = bindMatch ?? str.match(/\s([\w-]+)=$/);
+      const marker = ` ${fragmentEventAttr(templateNo, i)}=""`;
+      const isEmpty = value === false || value === null || value === undefined;
+      if (eventMatch && typeof value === "function") {
+        chunks.push(str.slice(0, eventMatch.index) + marker);
+      } else if (attrMatch) {
+        // `bind:` bindings render their initial value and a marker
+        const name = !bindMatch
+          ? attrMatch[1]
+          : attrMatch[1] === "checked"
+          ? "checked"
+          : "value";
+        chunks.push(str.slice(0, attrMatch.index) + (bindMatch ? marker : ""));
+        if (!isEmpty) chunks.push(` ${name}="${attributeValue(name, value)}"`);
+      } else if (/<[^>]*$/.test(markup)) {
+        // Inside a tag, values are attribute values or parts of one
+        const name = str.match(/([\w-]+)=\s*['"]?$/)?.[1];
+        chunks.push(str, isEmpty ? "" : attributeValue(name, value));
+      } else {
+        chunks.push(str, renderValue(value));
+      }
+    });
 
-  // deno-lint-ignore no-explicit-any
-  const { document } = parseHTML(
-    "<!DOCTYPE html><html><body></body></html>",
-  ) as any;
+    const content = joinChunks(chunks);
+    if (typeof content === "string") return safeHtml(content);
+    const pending = content.then(safeHtml);
+    asyncHtml.add(pending);
+    return pending;
+  }
+
+  /**
+   * Renders `fallback` in a placeholder now and queues the settled value of
+   * `promise` to be streamed into it later.
+   */
+  function defer(
+    promise: PromiseLike<unknown>,
+    fallback: unknown,
+    onError?: (err: Error) => unknown,
+  ): string | Promise<string> {
+    const id = `_${idCounter.value++}`;
+    const content = Promise.resolve(promise).then(
+      renderValue,
+      (err) => {
+        if (onError) return renderValue(onError(err));
+        console.error(err);
+        return "";
+      },
+    ).catch((err) => {
+      console.error(err);
+      return "";
+    });
+    deferred.push({ id, content });
+    return joinChunks([
+      `<span ${ATTR}="${id}">`,
+      renderValue(fallback),
+      "</span>",
+    ]);
+  }
 
   const html: Html = (strings: TemplateStringsArray, ...values: unknown[]) => {
-    const writtenSignals = new Set<string>();
-    analysis.forEach((expr) => {
-      if (expr?.writes) {
-        expr.writes.forEach((w) => writtenSignals.add(w));
+    if (rowDepth > 0) return renderFragment(strings, values, 0);
+    const template = templateFor(strings);
+    const branch = template && branchTemplates.get(template.start);
+    if (branch !== undefined) return renderFragment(strings, values, branch);
+    const analysis = template?.expressions ?? [];
+    const isRoot = !template?.nested;
+    report(analysis.flatMap((expr) => expr.diagnostics));
+    const scope: CallScope = { frame: template?.frame ?? null };
+    // Captured variables of `render` can be read from the holes of any of
+    // its templates, and those of a `.map()` row from its own
+    if (template) {
+      const holes = template.frame.parent
+        ? scope.holes = new Map()
+        : renderScope.holes ??= new Map();
+      values.forEach((value, i) => holes.set(`${template.start}:${i}`, value));
+    }
+    const capture = <T extends Binding | Handler>(
+      target: T,
+      expr: ExprAnalysis,
+    ) => {
+      if (expr.captures.length > 0) {
+        capturing.set(target, {
+          scope,
+          captures: expr.captures,
+          diagnosed: expr.isEvent || !!expr.each || !!expr.block,
+        });
       }
-    });
+      return target;
+    };
+
+    const writtenSignals = new Set<string>(declaredSignals(page));
+    for (const { expressions } of templates) {
+      expressions.forEach((expr) => {
+        expr.writes.forEach((w) => writtenSignals.add(w));
+      });
+    }
 
+    // Static markup accumulates in `templateHtml`; async children split it
+    // into parts that are joined once they have all rendered.
+    const parts: (string | Promise<string>)[] = [];
     let templateHtml = "";
+    const append = (chunk: string | Promise<string>) => {
+      if (typeof chunk === "string") {
+        templateHtml += chunk;
+      } else {
+        parts.push(templateHtml, chunk);
+        templateHtml = "";
+      }
+    };
     const placeholders: Map<string, { value: unknown; expr: ExprAnalysis }> =
       new Map();
 
+    // The template's own markup so far, which async children don't reset,
+    // to tell whether a value is in a tag
+    let markup = "";
     for (let i = 0; i < strings.length; i++) {
       templateHtml += strings[i];
+      markup += strings[i];
 
       if (i < values.length) {
         const value = values[i];
         const expr = analysis[i];
+        adopt(value, scope, expr?.map ?? null);
 
         const attrMatch = strings[i].match(/(\w+)=(['"]?)$/);
         const isAttrPosition = attrMatch && !attrMatch[2];
 
         const isEvent = expr?.isEvent;
         const isReactive = expr?.signals?.some((s) => writtenSignals.has(s));
-        const isAsync = expr?.isAsync;
 
-        if (isAsync) {
-          // Async expression - render placeholder, add to asyncBindings
+        if (value instanceof Await) {
+          const { promise, loading, then, catch: onError } = value.props;
+          append(defer(promise.then(then), loading, onError));
+        } else if (isAsyncHtml(value)) {
+          append(renderValue(value));
+        } else if (isPromiseLike(value)) {
+          append(defer(value, null));
+        } else if (value instanceof Each) {
+          if (expr?.each && (isReactive || expr.each.handlers.length > 0)) {
+            // Comment markers delimit the rows the client keeps in sync
+            const id = `_${idCounter.value++}`;
+            bindings.push(capture({
+              id,
+              signals: expr.signals,
+              source: expr.source,
+              each: expr.each,
+            }, expr));
+            append(`<!--zl:${id}-->`);
+            append(renderRows(value));
+            append(`<!--/zl:${id}-->`);
+          } else {
+            append(renderRows(value));
+          }
+        } else if (
+          expr?.block && !isAttrPosition &&
+          (isReactive || expr.block.handlers.length > 0)
+        ) {
+          // Comment markers delimit the branch the client swaps
           const id = `_${idCounter.value++}`;
-          templateHtml += `<span ${ATTR}="${id}"></span>`;
-          asyncBindings.push({
+          bindings.push(capture({
             id,
-            promiseSource: expr.promiseSource!,
-            thenCallback: expr.thenCallback!,
-            catchCallback: expr.catchCallback,
-          });
+            signals: expr.signals,
+            source: expr.source,
+            block: expr.block,
+          }, expr));
+          append(`<!--zb:${id}-->`);
+          append(renderValue(value));
+          append(`<!--/zb:${id}-->`);
+        } else if (
+          !expr?.bindProperty &&
+          (isSafeHtml(value) || isRenderable(value) || Array.isArray(value))
+        ) {
+          append(renderValue(value));
         } else if (isEvent || isReactive) {
           const placeholder = `__PLACEHOLDER_${i}__`;
           placeholders.set(placeholder, { value, expr });
@@ -376,168 +3070,244 @@ export function createHtmlFactory(
           } else {
             templateHtml += placeholder;
           }
-        } else if (isSafeHtml(value)) {
-          templateHtml += value.content;
-        } else if (isRenderable(value)) {
-          const childHtml = createHtmlFactory(value, ctx, idCounter);
-          const rendered = value.render({ html: childHtml, ...ctx });
-          templateHtml += isSafeHtml(rendered) ? rendered.content : rendered;
-        } else if (Array.isArray(value)) {
-          for (const item of value) {
-            if (isSafeHtml(item)) {
-              templateHtml += item.content;
-            } else if (isRenderable(item)) {
-              const childHtml = createHtmlFactory(item, ctx, idCounter);
-              const rendered = item.render({ html: childHtml, ...ctx });
-              templateHtml += isSafeHtml(rendered)
-                ? rendered.content
-                : rendered;
-            } else if (item === false || item === null || item === undefined) {
-              // Skip
-            } else {
-              const temp = document.createElement("div");
-              temp.textContent = String(item);
-              templateHtml += temp.innerHTML;
-            }
-          }
         } else if (value === false || value === null || value === undefined) {
           if (isAttrPosition) {
             templateHtml = templateHtml.replace(/\s\w+=$/, "");
           }
+        } else if (/<[^>]*$/.test(markup)) {
+          // Inside a tag, values are attribute values or parts of one
+          const text = attributeValue(attrMatch?.[1], value);
+          templateHtml += isAttrPosition ? `"${text}"` : text;
         } else {
-          if (isAttrPosition) {
-            const temp = document.createElement("div");
-            temp.textContent = String(value);
-            templateHtml += `"${temp.innerHTML}"`;
-          } else {
-            const temp = document.createElement("div");
-            temp.textContent = String(value);
-            templateHtml += temp.innerHTML;
-          }
+          const temp = document.createElement("div");
+          temp.textContent = String(value);
+          templateHtml += temp.innerHTML;
         }
       }
     }
+    parts.push(templateHtml);
 
-    // If no placeholders and no async, we're done
-    if (
-      placeholders.size === 0 && asyncBindings.length === 0 &&
-      handlers.length === 0
-    ) {
-      return safeHtml(templateHtml);
+    if (!parts.some(isPromiseLike)) return track(finish(parts.join("")));
+
+    const pending = Promise.all(parts).then((chunks) =>
+      finish(chunks.join(""))
+    );
+    asyncHtml.add(pending);
+    return track(pending);
+
+    function track<T extends object>(result: T): T {
+      callScopes.set(result, scope);
+      return result;
     }
 
-    // Parse and process placeholders
-    const root = document.createElement("div");
-    root.innerHTML = templateHtml;
+    function finish(templateHtml: string): SafeHtml {
+      const emits = isRoot || emitted.root;
+      if (isRoot) emitted.root = true;
+      const pending = handlers.length > emitted.handlers ||
+        bindings.length > emitted.bindings;
 
-    // 1. Process event attributes
-    // deno-lint-ignore no-explicit-any
-    const allElements: any[] = Array.from(root.querySelectorAll("*") as any);
-    for (const el of allElements) {
-      for (const attr of [...el.attributes]) {
-        for (const [placeholder, { expr }] of placeholders) {
-          if (attr.value === placeholder && expr?.isEvent) {
-            let id = elementIds.get(el);
-            if (!id) {
-              id = `_${idCounter.value++}`;
-              el.setAttribute(ATTR, id);
-              elementIds.set(el, id);
-            }
-            el.removeAttribute(attr.name);
+      // If no placeholders, we're done
+      if (placeholders.size === 0 && !(emits && pending)) {
+        return safeHtml(templateHtml);
+      }
+
+      // Parse and process placeholders
+      const root = document.createElement("div");
+      root.innerHTML = templateHtml;
+
+      // 1. Process event attributes
+      // deno-lint-ignore no-explicit-any
+      const allElements: any[] = Array.from(root.querySelectorAll("*") as any);
+      for (const el of allElements) {
+        for (const attr of [...el.attributes]) {
+          for (const [placeholder, { expr }] of placeholders) {
+            if (attr.value === placeholder && expr?.isEvent) {
+              let id = elementIds.get(el);
+              if (!id) {
+                id = `_${idCounter.value++}`;
+                el.setAttribute(ATTR, id);
+                elementIds.set(el, id);
+              }
+              el.removeAttribute(attr.name);
 
-            expr.writes.forEach((w: string) => writtenSignals.add(w));
+              expr.writes.forEach((w: string) => writtenSignals.add(w));
 
-            handlers.push({
-              id,
-              event: attr.name,
-              source: expr.bodySource!,
-              writes: expr.writes,
-            });
+              handlers.push(capture({
+                id,
+                event: attr.name,
+                source: expr.bodySource!,
+                writes: expr.writes,
+                signals: expr.signals,
+                params: expr.paramsSource ?? "",
+                isAsync: expr.isAsyncFunction,
+                isBlock: expr.hasBlockBody,
+              }, expr));
+            }
           }
         }
       }
-    }
 
-    // 2. Process non-event attribute placeholders
-    for (const el of allElements) {
-      for (const attr of [...el.attributes]) {
-        for (const [placeholder, { value, expr }] of placeholders) {
-          if (attr.value === placeholder && !expr?.isEvent) {
-            const isReactive = expr?.signals?.some((s: string) =>
-              writtenSignals.has(s)
-            );
-
-            if (isReactive) {
+      // 2. Process non-event attribute placeholders
+      for (const el of allElements) {
+        for (const attr of [...el.attributes]) {
+          for (const [placeholder, { value, expr }] of placeholders) {
+            if (attr.value === placeholder && expr?.bindProperty) {
               let id = elementIds.get(el);
               if (!id) {
                 id = `_${idCounter.value++}`;
                 el.setAttribute(ATTR, id);
                 elementIds.set(el, id);
               }
+              el.removeAttribute(attr.name);
 
-              el.setAttribute(attr.name, String(value));
-
+              const { property, read } = bindElement(
+                el,
+                expr.bindProperty,
+                value,
+              );
               bindings.push({
                 id,
                 signals: expr.signals,
                 source: expr.source,
-                attribute: attr.name,
+                property,
+                writeBack: read("__e.target"),
               });
-            } else {
-              el.setAttribute(attr.name, String(value));
+            } else if (attr.value === placeholder && !expr?.isEvent) {
+              if (attr.name.startsWith("on")) {
+                throw eventAttributeError(attr.name, value);
+              }
+              const isReactive = expr?.signals?.some((s: string) =>
+                writtenSignals.has(s)
+              );
+              const text = URL_ATTRIBUTES.has(attr.name)
+                ? sanitizeUrl(value)
+                : String(value);
+
+              if (isReactive) {
+                let id = elementIds.get(el);
+                if (!id) {
+                  id = `_${idCounter.value++}`;
+                  el.setAttribute(ATTR, id);
+                  elementIds.set(el, id);
+                }
+
+                el.setAttribute(attr.name, text);
+
+                bindings.push(capture({
+                  id,
+                  signals: expr.signals,
+                  source: expr.source,
+                  attribute: attr.name,
+                }, expr));
+              } else {
+                el.setAttribute(attr.name, text);
+              }
             }
           }
         }
       }
-    }
-
-    // 3. Process text node placeholders
-    const walker = document.createTreeWalker(root, 4);
-    // deno-lint-ignore no-explicit-any
-    const textNodes: any[] = [];
-    while (walker.nextNode()) {
-      textNodes.push(walker.currentNode);
-    }
 
-    for (const textNode of textNodes) {
-      let text = textNode.textContent || "";
+      // 3. Process text node placeholders. Each reactive hole gets its own
+      // text node after a comment marker, so the static text around it and
+      // other holes in the same element are left alone.
+      const walker = document.createTreeWalker(root, 4);
+      // deno-lint-ignore no-explicit-any
+      const textNodes: any[] = [];
+      while (walker.nextNode()) {
+        textNodes.push(walker.currentNode);
+      }
 
-      for (const [placeholder, { value, expr }] of placeholders) {
-        if (!text.includes(placeholder)) continue;
-        if (expr?.isEvent) continue;
+      for (const textNode of textNodes) {
+        const text: string = textNode.textContent || "";
+        const pieces = text.split(/(__PLACEHOLDER_\d+__)/);
+        if (pieces.length === 1) continue;
+
+        // Comments don't parse inside RCDATA elements, so those bind
+        // their whole text instead
+        const parent = textNode.parentNode;
+        const isRcdata = RCDATA_ELEMENTS.has(parent.tagName?.toLowerCase());
+
+        for (const piece of pieces) {
+          const entry = placeholders.get(piece);
+          if (!entry) {
+            parent.insertBefore(document.createTextNode(piece), textNode);
+            continue;
+          }
 
-        const isReactive = expr?.signals?.some((s: string) =>
-          writtenSignals.has(s)
-        );
+          const { value, expr } = entry;
+          const initial = String(value);
+          if (isRcdata) {
+            let id = elementIds.get(parent);
+            if (!id) {
+              id = `_${idCounter.value++}`;
+              parent.setAttribute(ATTR, id);
+              elementIds.set(parent, id);
+            }
+            parent.insertBefore(document.createTextNode(initial), textNode);
+            bindings.push(
+              capture({ id, signals: expr.signals, source: expr.source }, expr),
+            );
+            continue;
+          }
 
-        if (isReactive) {
-          const parent = textNode.parentElement;
-          let id = elementIds.get(parent);
-          if (!id) {
-            id = `_${idCounter.value++}`;
-            parent.setAttribute(ATTR, id);
-            elementIds.set(parent, id);
+          const id = `_${idCounter.value++}`;
+          parent.insertBefore(document.createComment(`zt:${id}`), textNode);
+          if (initial) {
+            parent.insertBefore(document.createTextNode(initial), textNode);
           }
-          text = text.replace(placeholder, String(value));
-          textNode.textContent = text;
-          bindings.push({
+          bindings.push(capture({
             id,
             signals: expr.signals,
             source: expr.source,
-          });
+            text: initial.length,
+          }, expr));
         }
+        textNode.remove();
+      }
+
+      let result = root.innerHTML;
+      if (!emits) return safeHtml(result);
+
+      const newBindings = bindings.slice(emitted.bindings);
+      const newHandlers = handlers.slice(emitted.handlers);
+      emitted.bindings = bindings.length;
+      emitted.handlers = handlers.length;
+
+      for (const target of [...newBindings, ...newHandlers]) {
+        const pending = capturing.get(target);
+        if (!pending) continue;
+        target.captures = Object.fromEntries(
+          pending.captures.flatMap(({ name, error }) => {
+            if (error) {
+              if (!pending.diagnosed) unsendable(name, error, true);
+              return [];
+            }
+            try {
+              return [[
+                name,
+                captured(pending.scope, pending.scope.frame, name),
+              ]];
+            } catch (err) {
+              unsendable(name, (err as Error).message, true);
+              return [];
+            }
+          }),
+        );
       }
-    }
 
-    let result = root.innerHTML;
+      if (newHandlers.length > 0 || newBindings.length > 0) {
+        result += generateScript(
+          page,
+          newBindings,
+          newHandlers,
+          computed,
+          methods,
+          { nonce: ctx.nonce, scripts: ctx.scripts, sent, unsendable },
+        );
+      }
 
-    if (
-      handlers.length > 0 || bindings.length > 0 || asyncBindings.length > 0
-    ) {
-      result += generateScript(page, bindings, handlers, asyncBindings);
+      return safeHtml(result);
     }
-
-    return safeHtml(result);
   };
 
   return html;
@@ -550,14 +3320,569 @@ function injectId(html: string, id: string): string {
 // deno-lint-ignore no-explicit-any
 type RenderableClass = new (...args: any[]) => Renderable;
 
-class App {
-  pages: Record<string, RenderableClass> = {};
+type Segment =
+  | { kind: "static"; value: string }
+  | { kind: "param"; name: string; optional: boolean }
+  | { kind: "wildcard"; name: string };
+
+interface Route {
+  path: string;
+  segments: Segment[];
+  page: RenderableClass;
+}
+
+interface LayoutRoute {
+  path: string;
+  segments: Segment[];
+  layout: RenderableClass;
+}
+
+interface RouteMatch {
+  route: Route;
+  params: Params;
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((part) => part !== "");
+}
+
+/**
+ * Compiles a route pattern into segments.
+ * `:name` matches one segment, `:name?` matches zero or one, and `*name`
+ * matches the rest of the path (possibly empty) and must come last.
+ */
+function parsePattern(path: string): Segment[] {
+  const parts = splitPath(path);
+  return parts.map((part, i): Segment => {
+    if (part.startsWith("*")) {
+      if (i !== parts.length - 1) {
+        throw new Error(`Wildcard must be the last segment in "${path}"`);
+      }
+      return { kind: "wildcard", name: part.slice(1) || "rest" };
+    }
+    if (part.startsWith(":")) {
+      const optional = part.endsWith("?");
+      const name = part.slice(1, optional ? -1 : undefined);
+      return { kind: "param", name, optional };
+    }
+    return { kind: "static", value: part };
+  });
+}
+
+function matchSegments(
+  segments: Segment[],
+  parts: string[],
+  params: Params,
+): Params | null {
+  if (segments.length === 0) return parts.length === 0 ? params : null;
+
+  const [segment, ...rest] = segments;
+  switch (segment.kind) {
+    case "static":
+      if (parts[0] !== segment.value) return null;
+      return matchSegments(rest, parts.slice(1), params);
+    case "wildcard":
+      return { ...params, [segment.name]: parts.join("/") };
+    case "param": {
+      if (parts.length > 0) {
+        const matched = matchSegments(rest, parts.slice(1), {
+          ...params,
+          [segment.name]: parts[0],
+        });
+        if (matched) return matched;
+      }
+      return segment.optional ? matchSegments(rest, parts, params) : null;
+    }
+  }
+}
+
+function segmentRank(segment: Segment | undefined): number {
+  if (!segment) return 2;
+  if (segment.kind === "static") return 4;
+  if (segment.kind === "param") return segment.optional ? 1 : 3;
+  return 0;
+}
+
+/**
+ * Orders routes so the most specific wins: segment by segment, static beats
+ * `:param`, which beats the end of a route, which beats `:param?`, which
+ * beats `*wildcard`. Routes that tie keep their registration order.
+ */
+function compareRoutes(a: Route, b: Route): number {
+  const length = Math.max(a.segments.length, b.segments.length);
+  for (let i = 0; i < length; i++) {
+    const diff = segmentRank(b.segments[i]) - segmentRank(a.segments[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+async function parseBody(req: Request): Promise<unknown> {
+  const type = req.headers.get("content-type") ?? "";
+  if (type.includes("application/json")) return await req.json();
+  if (
+    type.includes("multipart/form-data") ||
+    type.includes("application/x-www-form-urlencoded")
+  ) {
+    return await req.formData();
+  }
+  return await req.text();
+}
+
+const ACTION_METHODS = ["post", "put", "patch", "delete"] as const;
+
+/**
+ * Finds the handler for a non-GET request: a named action for `?/name`,
+ * otherwise the method of the same name as the HTTP method.
+ */
+function findAction(page: Page, req: Request): ActionFn | undefined {
+  const { search } = new URL(req.url);
+  if (req.method === "POST" && search.startsWith("?/")) {
+    return page.actions?.[decodeURIComponent(search.slice(2))];
+  }
+  const method = req.method.toLowerCase() as typeof ACTION_METHODS[number];
+  return ACTION_METHODS.includes(method) ? page[method] : undefined;
+}
+
+function allowedMethods(page: Page): string {
+  const methods = ["GET", "HEAD"];
+  for (const name of ACTION_METHODS) {
+    if (page[name] || (name === "post" && page.actions)) {
+      methods.push(name.toUpperCase());
+    }
+  }
+  return methods.join(", ");
+}
+
+/**
+ * Renders a page and wraps it in its layouts, innermost first. Every
+ * component shares one id counter so their `data-zid`s stay unique, and
+ * one record of the client code already sent.
+ */
+async function renderWithLayouts(
+  page: Renderable,
+  layouts: RenderableClass[],
+  init: ContextInit,
+  deferred: Deferred[],
+): Promise<string> {
+  const idCounter = { value: 0 };
+  const sent = new Set<string>();
+  let content = await renderComponent(page, init, idCounter, deferred, sent);
+  for (const Layout of [...layouts].reverse()) {
+    content = await renderComponent(
+      new Layout(),
+      { ...init, slot: safeHtml(content) },
+      idCounter,
+      deferred,
+      sent,
+    );
+  }
+  return content;
+}
+
+/** The client runtime's helpers, passed to component code as `__z`. */
+const RUNTIME_EXPORTS = [
+  "__byId",
+  "__text",
+  "__anchor",
+  "__list",
+  "__block",
+  "__patch",
+  "__findAll",
+  "__find",
+  "__parse",
+  "__esc",
+  "__attr",
+  "html",
+  "__url",
+  "unsafeUrl",
+];
+
+/**
+ * The client runtime, loaded once per page and cached. Component code and
+ * instance data are pushed onto `self.__zq` in whatever order they arrive;
+ * an instance is hydrated once its component's code is there too.
+ */
+const CLIENT_RUNTIME = `(() => {
+${MARKER_RUNTIME}${URL_RUNTIME}${FRAGMENT_RUNTIME}  const __byId = (id) => document.querySelector('[${ATTR}="' + id + '"]');
+  const __decode = ${decodeState};
+  const __z = { ${RUNTIME_EXPORTS.join(", ")} };
+  const code = new Map();
+  const waiting = new Map();
+  const run = ([key, value]) => {
+    if (typeof value === "function") {
+      code.set(key, value);
+      for (const data of waiting.get(key) ?? []) value(data, __z);
+      waiting.delete(key);
+    } else if (code.has(key)) {
+      code.get(key)(__decode(value), __z);
+    } else {
+      waiting.set(key, [...waiting.get(key) ?? [], __decode(value)]);
+    }
+  };
+  const queue = self.__zq ?? [];
+  self.__zq = { push: (...items) => items.forEach(run) };
+  queue.forEach(run);
+})();
+`;
+
+/** Where the client runtime is served; the name changes with its code. */
+const RUNTIME_PATH = `${SCRIPT_PATH}runtime.${contentHash(CLIENT_RUNTIME)}.js`;
+
+/**
+ * Moves a streamed `<template data-zs>` into the placeholder with the same
+ * id. Scripts are recreated, keeping their source and nonce, so the browser
+ * runs them once they are inserted.
+ */
+const SWAP_SCRIPT = `function __zswap(id) {
+  const t = document.querySelector('template[data-zs="' + id + '"]');
+  const p = document.querySelector('[${ATTR}="' + id + '"]');
+  if (!t || !p) return;
+  for (const old of t.content.querySelectorAll("script")) {
+    const s = document.createElement("script");
+    if (old.src) s.src = old.src;
+    s.nonce = old.nonce;
+    s.textContent = old.textContent;
+    old.replaceWith(s);
+  }
+  p.replaceWith(t.content);
+  t.remove();
+}`;
+
+/**
+ * Streams the shell straight away, then each deferred fragment in the order
+ * it settles, ahead of the closing `</body>` when there is one. Fragments can
+ * defer further content, which is streamed the same way. The scripts doing
+ * the swaps carry `nonce` when there is one.
+ */
+export function renderToStream(
+  shell: string,
+  deferred: Deferred[],
+  nonce?: string,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const bodyEnd = shell.lastIndexOf("</body>");
+  const head = bodyEnd === -1 ? shell : shell.slice(0, bodyEnd);
+  const tail = bodyEnd === -1 ? "" : shell.slice(bodyEnd);
+  const script = (code: string) =>
+    `<script${nonceAttr(nonce)}>${code}</script>`;
+
+  return new ReadableStream({
+    async start(controller) {
+      controller.enqueue(encoder.encode(head));
+      if (deferred.length > 0) {
+        controller.enqueue(encoder.encode(script(SWAP_SCRIPT)));
+      }
+
+      const sent = new Set<Deferred>();
+      while (sent.size < deferred.length) {
+        const { item, content } = await Promise.race(
+          deferred
+            .filter((item) => !sent.has(item))
+            .map((item) => item.content.then((content) => ({ item, content }))),
+        );
+        sent.add(item);
+        controller.enqueue(
+          encoder.encode(
+            `<template data-zs="${item.id}">${content}</template>` +
+              script(`__zswap("${item.id}")`),
+          ),
+        );
+      }
+
+      controller.enqueue(encoder.encode(tail));
+      controller.close();
+    },
+  });
+}
+
+class NotFoundPage {
+  render({ html, req }: RenderContext) {
+    return html`<h1>404 Not Found</h1><p>${new URL(req.url).pathname}</p>`;
+  }
+}
+
+class ErrorPage {
+  render({ html, error, dev }: RenderContext) {
+    const stack = error instanceof Error ? error.stack : String(error);
+    return html`<h1>500 Internal Server Error</h1>${
+      dev && html`<pre>${stack}</pre>`
+    }`;
+  }
+}
+
+interface AppOptions {
+  /** Show stack traces on error pages, and log template diagnostics. */
+  dev?: boolean;
+  /** Fail renders of templates with diagnostics, e.g. in tests. */
+  strict?: boolean;
+  /**
+   * Send a Content-Security-Policy header allowing only the request's own
+   * scripts, or the policy a function builds from the request's nonce.
+   */
+  csp?: boolean | ((nonce: string) => string);
+  /** Serve component scripts as hash-addressed files instead of inline. */
+  externalScripts?: boolean;
+}
+
+/** A fresh random nonce for one response's scripts. */
+function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/** The Content-Security-Policy `App` sends with `csp: true`. */
+function defaultPolicy(nonce: string): string {
+  return `script-src 'nonce-${nonce}' 'strict-dynamic'; object-src 'none'; base-uri 'none'`;
+}
+
+export class App {
+  routes: Route[] = [];
+  layouts: LayoutRoute[] = [];
+  notFoundPage: RenderableClass = NotFoundPage;
+  errorPage: RenderableClass = ErrorPage;
+  dev: boolean;
+  strict: boolean;
+  csp?: (nonce: string) => string;
+  scripts?: ScriptFiles;
+
+  constructor(
+    { dev = false, strict = false, csp, externalScripts }: AppOptions = {},
+  ) {
+    this.dev = dev;
+    this.strict = strict;
+    this.csp = csp === true ? defaultPolicy : csp || undefined;
+    if (externalScripts) this.scripts = new ScriptFiles();
+  }
+
+  /**
+   * Finds the page registered for a URL path, along with its params.
+   * @example
+   * app.match("/users/42"); // { route, params: { id: "42" } }
+   */
+  match(pathname: string): RouteMatch | null {
+    let parts: string[];
+    try {
+      parts = splitPath(pathname).map(decodeURIComponent);
+    } catch {
+      return null;
+    }
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, parts, {});
+      if (params) return { route, params };
+    }
+    return null;
+  }
+
+  /** Finds the layouts wrapping a URL path, outermost first. */
+  layoutsFor(pathname: string): RenderableClass[] {
+    let parts: string[];
+    try {
+      parts = splitPath(pathname).map(decodeURIComponent);
+    } catch {
+      return [];
+    }
+    return this.layouts
+      .filter(({ segments }) =>
+        matchSegments([...segments, { kind: "wildcard", name: "" }], parts, {})
+      )
+      .map(({ layout }) => layout);
+  }
+
+  /**
+   * Writes the analysis of the registered pages, layouts and error pages,
+   * and of the other `components` they render, for `readAnalysis` to load
+   * at startup instead of parsing each component on its first render.
+   */
+  build(
+    path: string | URL,
+    components: RenderableClass[] = [],
+  ): Promise<void> {
+    return writeAnalysis(
+      path,
+      new Set([
+        ...this.routes.map(({ page }) => page),
+        ...this.layouts.map(({ layout }) => layout),
+        this.notFoundPage,
+        this.errorPage,
+        ...components,
+      ]),
+    );
+  }
+
+  /**
+   * Streams the page matching the request's URL, falling back to the
+   * not-found page for unknown paths and the error page when rendering throws.
+   * Other methods than GET run the page's handler or form action first and
+   * pass its result to `render` as `ctx.action`. A `Redirect` thrown while
+   * handling or rendering becomes a redirect response. Each response gets a
+   * fresh nonce for its scripts. The client runtime, and component scripts
+   * when they're external, are served here too.
+   */
+  async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    if (url.pathname.startsWith(SCRIPT_PATH)) {
+      return this.serveScript(url.pathname);
+    }
+
+    const match = this.match(url.pathname);
+    const { dev, strict, scripts } = this;
+    const nonce = createNonce();
+    const policy = this.csp?.(nonce);
+    const response = new PageResponse(match ? 200 : 404);
+    if (policy) response.header("content-security-policy", policy);
+
+    try {
+      const Page = match ? match.route.page : this.notFoundPage;
+      const page: Page = new Page();
+      const ctx = createContext({
+        req,
+        dev,
+        strict,
+        response,
+        nonce,
+        scripts,
+        params: match?.params ?? {},
+      });
+
+      if (match && req.method !== "GET" && req.method !== "HEAD") {
+        const action = findAction(page, req);
+        if (!action) {
+          return new Response("Method Not Allowed", {
+            status: 405,
+            headers: { allow: allowedMethods(page) },
+          });
+        }
+
+        let body: unknown;
+        try {
+          body = await parseBody(req);
+        } catch {
+          return new Response("Bad Request", { status: 400 });
+        }
+        ctx.action = await action.call(page, body, ctx);
+      }
+
+      const deferred: Deferred[] = [];
+      const shell = await renderWithLayouts(
+        page,
+        this.layoutsFor(url.pathname),
+        ctx,
+        deferred,
+      );
+      return response.toResponse(renderToStream(shell, deferred, nonce));
+    } catch (error) {
+      if (error instanceof Redirect) {
+        return response
+          .status(error.status)
+          .header("location", error.location)
+          .toResponse(null);
+      }
+
+      console.error(error);
+      try {
+        const errorResponse = new PageResponse(500);
+        if (policy) errorResponse.header("content-security-policy", policy);
+        return errorResponse.toResponse(
+          await renderComponent(new this.errorPage(), {
+            req,
+            dev,
+            error,
+            response: errorResponse,
+            nonce,
+            scripts,
+          }),
+        );
+      } catch (pageError) {
+        console.error(pageError);
+        const stack = error instanceof Error ? error.stack : String(error);
+        return new Response(
+          dev ? stack : "Internal Server Error",
+          { status: 500 },
+        );
+      }
+    }
+  }
+
+  /**
+   * Serves the client runtime or a component script stored by `ScriptFiles`.
+   * Their paths change with their code, so they can be cached for good.
+   */
+  serveScript(pathname: string): Response {
+    const code = pathname === RUNTIME_PATH
+      ? CLIENT_RUNTIME
+      : this.scripts?.get(pathname);
+    if (code === undefined) return new Response("Not Found", { status: 404 });
+    return new Response(code, {
+      headers: {
+        "content-type": "text/javascript; charset=utf-8",
+        "cache-control": "public, max-age=31536000, immutable",
+      },
+    });
+  }
+
+  /**
+   * Class decorator that registers a layout wrapping every page under a path
+   * prefix. The page, or the next nested layout, is passed as `ctx.slot`.
+   * @example
+   * @app.layout("/admin")
+   * class AdminLayout {
+   *   render({ html, slot }: RenderContext) {
+   *     return html`<nav>...</nav><main>${slot}</main>`;
+   *   }
+   * }
+   */
+  layout(path: string) {
+    return <T extends RenderableClass>(
+      value: T,
+      _context: ClassDecoratorContext,
+    ) => {
+      this.layouts.push({ path, segments: parsePattern(path), layout: value });
+      this.layouts.sort((a, b) => a.segments.length - b.segments.length);
+      return value;
+    };
+  }
+
+  /**
+   * Class decorator that registers the page rendered for unknown paths.
+   * @example
+   * @app.notFound()
+   * class Missing { ... }
+   */
+  notFound() {
+    return <T extends RenderableClass>(
+      value: T,
+      _context: ClassDecoratorContext,
+    ) => {
+      this.notFoundPage = value;
+      return value;
+    };
+  }
+
+  /**
+   * Class decorator that registers the page rendered when a page throws.
+   * The thrown value is available as `ctx.error`.
+   * @example
+   * @app.error()
+   * class Oops { ... }
+   */
+  error() {
+    return <T extends RenderableClass>(
+      value: T,
+      _context: ClassDecoratorContext,
+    ) => {
+      this.errorPage = value;
+      return value;
+    };
+  }
 
   /**
    * Class decorator that registers a page component at the given URL path.
+   * Paths may contain `:param`, optional `:param?` and trailing `*rest`
+   * segments; matched values are passed to `render` as `ctx.params`.
    * @example
-   * @app.route("/dashboard")
-   * class Dashboard { ... }
+   * @app.route("/users/:id")
+   * class User { ... }
    */
   route(path: string) {
     return <T extends RenderableClass>(
@@ -571,46 +3896,88 @@ class App {
           super(...args);
         }
       };
-      this.pages[path] = ModifiedClass;
+      this.routes.push({
+        path,
+        segments: parsePattern(path),
+        page: ModifiedClass,
+      });
+      this.routes.sort(compareRoutes);
       return ModifiedClass;
     };
   }
 
   /**
    * Field decorator that marks a class property as reactive state.
-   * Decorated fields are tracked in the component's `signals` map.
+   * Decorated fields are always reactive on the client, even when no
+   * handler in the template writes to them; undecorated fields only are
+   * when one does. Client code writing one, in a handler, a method, a
+   * timer or a callback, updates what reads it.
    * @example
    * class Counter {
    *   @app.signal count = 0;
    * }
    */
-  // signal(_value: undefined, { kind, name }: ClassFieldDecoratorContext) {
-  //   if (kind === "field") {
-  //     return function <V>(this: Renderable, initialValue: V) {
-  //       this.signals ??= {};
-  //       this.signals[name] = initialValue;
-  //       return initialValue;
-  //     };
-  //   }
-  // }
-}
-
-class Await<T> {
-  state: unknown;
-  constructor(
-    props: {
-      promise: Promise<T>;
-      loading?: string | SafeHtml;
-      then: (res: T) => string | SafeHtml;
-      catch?: (err: Error) => string | SafeHtml;
-    },
+  signal<This extends object, V>(
+    _value: undefined,
+    { kind, name }: ClassFieldDecoratorContext<This, V>,
   ) {
-    this.state = props.loading ?? ``;
-    props.promise.then(props.then).catch(props?.catch);
+    if (kind !== "field" || typeof name !== "string") {
+      throw new TypeError("@app.signal only applies to named class fields");
+    }
+    return function (this: This, initialValue: V) {
+      let fields = signalFields.get(this);
+      if (!fields) {
+        fields = new Set();
+        signalFields.set(this, fields);
+      }
+      fields.add(name);
+      return initialValue;
+    };
   }
+}
+
+/** A keyed list rendered with `each`. */
+export class Each<T> {
+  constructor(
+    readonly items: T[],
+    readonly key: (item: T, index: number) => unknown,
+    readonly template: (item: T, index: number) => Rendered | Promise<Rendered>,
+  ) {}
+}
+
+/**
+ * Renders a list whose rows the client keeps in sync with `items`, matching
+ * rows by `key`. Rows whose item is unchanged are left untouched; the row
+ * template must be an arrow function returning a single-element `html`
+ * template.
+ *
+ * @example
+ * html`<ul>${each(this.todos, (t) => t.id, (t) => html`<li>${t.text}</li>`)}</ul>`
+ */
+export function each<T>(
+  items: T[],
+  key: (item: T, index: number) => unknown,
+  template: (item: T, index: number) => Rendered | Promise<Rendered>,
+): Each<T> {
+  return new Each(items, key, template);
+}
+
+interface AwaitProps<T> {
+  promise: Promise<T>;
+  loading?: Rendered | Promise<Rendered>;
+  then: (res: T) => Rendered | Promise<Rendered>;
+  catch?: (err: Error) => Rendered | Promise<Rendered>;
+}
+
+/**
+ * Renders `loading` straight away and streams the result of `then` (or
+ * `catch`) into its place once `promise` settles.
+ */
+export class Await<T> {
+  constructor(readonly props: AwaitProps<T>) {}
 
   render() {
-    return this.state;
+    return this.props.loading ?? ``;
   }
 }
 
@@ -652,6 +4019,7 @@ class List {
 }
 
 class Counter {
+  @app.signal
   count = 0;
 
   constructor(props: { initial: number }) {
@@ -663,16 +4031,14 @@ class Counter {
   }
 }
 
-// Route incoming requests to registered page components
-Deno.serve((req) => {
-  const url = new URL(req.url);
-  const Page = app.pages[url.pathname];
-  const page = new Page();
-  const html = createHtmlFactory(page, { req });
-  // In your server handler or wherever you call render:
-  const result = page.render({ html, req });
-  const content = isSafeHtml(result) ? result.content : result;
-  return new Response(content, {
-    headers: { "content-type": "text/html; charset=utf8" },
-  });
-});
+// `deno task build` analyses the components ahead of time; the server
+// loads that analysis, if any, and routes requests to the page components
+if (import.meta.main) {
+  const analysis = new URL("./analysis.json", import.meta.url);
+  if (Deno.args[0] === "build") {
+    await app.build(analysis, [List, Counter]);
+  } else {
+    await readAnalysis(analysis);
+    Deno.serve((req) => app.handle(req));
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  createHtmlFactory,
+  each,
+  precompile,
+  readAnalysis,
+  type RenderContext,
+  usePrecompiled,
+  writeAnalysis,
+} from "./main.ts";
+
+// Each call makes a new class, with new methods, so nothing about it is
+// cached yet
+const todos = () =>
+  class Todos {
+    items = [
+      { id: 1, text: "Write the analysis cache" },
+      { id: 2, text: "Benchmark it" },
+    ];
+    filter = "";
+
+    get visible() {
+      return this.items.filter((item) => item.text.includes(this.filter));
+    }
+
+    remove(id: number) {
+      this.items = this.items.filter((item) => item.id !== id);
+    }
+
+    render({ html }: Pick<RenderContext, "html">) {
+      return html`<section>
+      <input bind:value=${this.filter} />
+      <p>${this.visible.length} of ${this.items.length}</p>
+      <ul>${
+        each(this.visible, (item) => item.id, (item) =>
+          html`<li>${item.text}
+            <button onclick=${() => this.remove(item.id)}>x</button>
+          </li>`)
+      }</ul>
+    </section>`;
+    }
+  };
+type Todos = InstanceType<ReturnType<typeof todos>>;
+
+function render(instance: Todos) {
+  const html = createHtmlFactory(instance, {
+    req: new Request("http://localhost/"),
+  });
+  return instance.render({ html });
+}
+
+// `deno run main_bench.ts cold [analysis.json]` renders once in a fresh
+// process, which the cold start benches time
+if (Deno.args[0] === "cold") {
+  if (Deno.args[1]) await readAnalysis(Deno.args[1]);
+  render(new (todos())());
+  Deno.exit();
+}
+
+// Saved analyses are matched by class name and source, which are the same
+// for every `Loaded` class
+const loaded = () => class Loaded extends todos() {};
+usePrecompiled(JSON.parse(JSON.stringify(precompile([loaded()]))));
+const Cached = todos();
+
+Deno.bench("render - analysed on every render", { baseline: true }, () => {
+  render(new (todos())());
+});
+
+Deno.bench("render - analysis loaded ahead of time", () => {
+  render(new (loaded())());
+});
+
+Deno.bench("render - analysis cached per class", () => {
+  render(new Cached());
+});
+
+// A cold start still loads the modules, Babel among them; the saved
+// analysis saves parsing the component and rewriting its client code
+const analysis = await Deno.makeTempFile({ suffix: ".json" });
+await writeAnalysis(analysis, [todos()]);
+addEventListener("unload", () => Deno.removeSync(analysis));
+const coldStart = (...args: string[]) =>
+  new Deno.Command(Deno.execPath(), {
+    args: ["run", "-A", import.meta.filename!, "cold", ...args],
+    stdout: "null",
+  }).output();
+
+Deno.bench(
+  "cold start - analysed on first render",
+  { group: "cold start", baseline: true, n: 10 },
+  async () => {
+    await coldStart();
+  },
+);
+
+Deno.bench(
+  "cold start - analysis read from disk",
+  { group: "cold start", n: 10 },
+  async () => {
+    await coldStart(analysis);
+  },
+);
@@ -1,10 +1,30 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 import {
+  analysisKey,
+  analyzeComponent,
+  analyzeGetters,
+  analyzeMethods,
   analyzeRender,
+  analyzeTemplates,
+  App,
+  Await,
   createHtmlFactory,
+  declaredSignals,
+  decodeState,
+  Deferred,
+  DiagnosticError,
+  each,
+  encodeState,
   generateScript,
   isSafeHtml,
+  precompile,
+  readAnalysis,
+  Redirect,
+  renderToStream,
   SafeHtml,
+  sanitizeUrl,
+  unsafeUrl,
+  usePrecompiled,
 } from "./main.ts";
 
 // Helper to get string content from render result
@@ -82,7 +102,7 @@ Deno.test("generateScript - creates correct variable declarations", () => {
 
   const script = generateScript(instance, bindings, handlers);
 
-  assertEquals(script.includes("let count = 5;"), true);
+  assertEquals(script.includes("let $count = __data.state.count;"), true);
 });
 
 Deno.test("generateScript - creates correct element selectors", () => {
@@ -92,10 +112,8 @@ Deno.test("generateScript - creates correct element selectors", () => {
 
   const script = generateScript(instance, bindings, handlers);
 
-  assertEquals(
-    script.includes("document.querySelector('[data-zid=\"_0\"]')"),
-    true,
-  );
+  assertEquals(script.includes("const _0 = __byId(__data.ids[0]);"), true);
+  assertEquals(script.includes('\\"ids\\":[\\"_0\\"]'), true);
 });
 
 Deno.test("generateScript - creates update function", () => {
@@ -105,8 +123,11 @@ Deno.test("generateScript - creates update function", () => {
 
   const script = generateScript(instance, bindings, handlers);
 
-  assertEquals(script.includes("function __update()"), true);
-  assertEquals(script.includes("_0.textContent = count"), true);
+  assertEquals(script.includes("function __update(...signals)"), true);
+  assertEquals(
+    script.includes('if (__changed.has("count")) _0.textContent = $count'),
+    true,
+  );
 });
 
 Deno.test("generateScript - creates event handlers", () => {
@@ -122,7 +143,7 @@ Deno.test("generateScript - creates event handlers", () => {
   const script = generateScript(instance, bindings, handlers);
 
   assertEquals(
-    script.includes("_0.onclick = () => { count++; __update(); }"),
+    script.includes('_0.onclick = () => { count++; __update("count"); }'),
     true,
   );
 });
@@ -459,10 +480,10 @@ Deno.test("generateScript - multiple signals in update function", () => {
 
   const script = generateScript(instance, bindings, handlers);
 
-  assertEquals(script.includes("let a = 1;"), true);
-  assertEquals(script.includes("let b = 2;"), true);
-  assertEquals(script.includes("_0.textContent = a"), true);
-  assertEquals(script.includes("_1.textContent = b"), true);
+  assertEquals(script.includes("let $a = __data.state.a;"), true);
+  assertEquals(script.includes("let $b = __data.state.b;"), true);
+  assertEquals(script.includes("_0.textContent = $a"), true);
+  assertEquals(script.includes("_1.textContent = $b"), true);
 });
 
 Deno.test("generateScript - handler modifies multiple signals", () => {
@@ -471,14 +492,14 @@ Deno.test("generateScript - handler modifies multiple signals", () => {
   const handlers = [{
     id: "_0",
     event: "onclick",
-    source: "x++; y++",
+    source: "x++, y++",
     writes: ["x", "y"],
   }];
 
   const script = generateScript(instance, bindings, handlers);
 
-  assertEquals(script.includes("let x = 0;"), true);
-  assertEquals(script.includes("let y = 0;"), true);
+  assertEquals(script.includes("let $x = __data.state.x;"), true);
+  assertEquals(script.includes("let $y = __data.state.y;"), true);
 });
 
 Deno.test("createHtmlFactory - same element with event and reactive text", () => {
@@ -959,7 +980,7 @@ Deno.test("analyzeRender - detects async .then().catch() pattern", () => {
   assertEquals(analysis[0].catchCallback !== null, true);
 });
 
-Deno.test("createHtmlFactory - async renders placeholder", () => {
+Deno.test("createHtmlFactory - async renders placeholder", async () => {
   class Async {
     getData() {
       return Promise.resolve("data");
@@ -973,37 +994,111 @@ Deno.test("createHtmlFactory - async renders placeholder", () => {
 
   const instance = new Async();
   const ctx = { req: new Request("http://localhost/") };
-  const html = createHtmlFactory(instance, ctx);
+  const deferred: Deferred[] = [];
+  const html = createHtmlFactory(instance, ctx, { value: 0 }, deferred);
   const result = getContent(instance.render({ html, ...ctx }));
 
   // Should have a placeholder element
-  assertEquals(result.includes("data-zid="), true);
-  // Should have script
-  assertEquals(result.includes("<script>"), true);
-  // Should have .then in script
-  assertEquals(result.includes(".then"), true);
+  assertEquals(result, '<div><span data-zid="_0"></span></div>');
+  // The promise is resolved on the server, not re-run on the client
+  assertEquals(result.includes("<script>"), false);
+  assertEquals(deferred.length, 1);
+  assertEquals(await deferred[0].content, "<span>data</span>");
 });
 
-Deno.test("createHtmlFactory - async with catch renders placeholder", () => {
+Deno.test("createHtmlFactory - async with catch renders placeholder", async () => {
   class Async {
     getData() {
-      return Promise.resolve("data");
+      return Promise.reject(new Error("nope"));
     }
     render({ html }: any) {
       return html`<div>${
         this.getData()
           .then((d) => html`<span>${d}</span>`)
-          .catch((e) => html`<span>Error</span>`)
+          .catch((e) => html`<span>${e.message}</span>`)
       }</div>`;
     }
   }
 
   const instance = new Async();
   const ctx = { req: new Request("http://localhost/") };
-  const html = createHtmlFactory(instance, ctx);
+  const deferred: Deferred[] = [];
+  const html = createHtmlFactory(instance, ctx, { value: 0 }, deferred);
+  const result = getContent(instance.render({ html, ...ctx }));
+
+  assertEquals(result.includes(".catch"), false);
+  assertEquals(await deferred[0].content, "<span>nope</span>");
+});
+
+Deno.test("createHtmlFactory - Await renders loading content", async () => {
+  class Async {
+    render({ html }: any) {
+      return html`<div>${new Await({
+        promise: Promise.resolve(3),
+        loading: html`<i>loading</i>`,
+        then: (n) => html`<b>${n}</b>`,
+      })}</div>`;
+    }
+  }
+
+  const instance = new Async();
+  const ctx = { req: new Request("http://localhost/") };
+  const deferred: Deferred[] = [];
+  const html = createHtmlFactory(instance, ctx, { value: 0 }, deferred);
   const result = getContent(instance.render({ html, ...ctx }));
 
-  assertEquals(result.includes(".catch"), true);
+  assertEquals(result, '<div><span data-zid="_0"><i>loading</i></span></div>');
+  assertEquals(await deferred[0].content, "<b>3</b>");
+});
+
+Deno.test("createHtmlFactory - Await renders catch content", async () => {
+  class Async {
+    render({ html }: any) {
+      return html`<div>${new Await({
+        promise: Promise.reject(new Error("down")),
+        then: () => html`<b>ok</b>`,
+        catch: (err) => html`<b>${err.message}</b>`,
+      })}</div>`;
+    }
+  }
+
+  const instance = new Async();
+  const ctx = { req: new Request("http://localhost/") };
+  const deferred: Deferred[] = [];
+  const html = createHtmlFactory(instance, ctx, { value: 0 }, deferred);
+  instance.render({ html, ...ctx });
+
+  assertEquals(await deferred[0].content, "<b>down</b>");
+});
+
+Deno.test("renderToStream - streams fragments in the order they settle", async () => {
+  let resolveSlow!: (value: string) => void;
+  const slow = new Promise<string>((resolve) => resolveSlow = resolve);
+  const deferred: Deferred[] = [
+    { id: "_0", content: slow },
+    { id: "_1", content: Promise.resolve("fast") },
+  ];
+
+  const reader = renderToStream("<body>shell</body>", deferred).getReader();
+  const decoder = new TextDecoder();
+  const next = async () => {
+    const { value, done } = await reader.read();
+    return done ? null : decoder.decode(value);
+  };
+
+  assertEquals(await next(), "<body>shell");
+  assertEquals((await next())?.includes("__zswap"), true);
+  assertEquals(
+    await next(),
+    '<template data-zs="_1">fast</template><script>__zswap("_1")</script>',
+  );
+  resolveSlow("slow");
+  assertEquals(
+    await next(),
+    '<template data-zs="_0">slow</template><script>__zswap("_0")</script>',
+  );
+  assertEquals(await next(), "</body>");
+  assertEquals(await next(), null);
 });
 
 Deno.test("DEBUG - async detection", () => {
@@ -1023,3 +1118,2491 @@ Deno.test("DEBUG - async detection", () => {
   const analysis = analyzeRender(Async.prototype.render);
   console.log("ANALYSIS:", JSON.stringify(analysis, null, 2));
 });
+
+Deno.test("App.match - static routes beat parametric ones", () => {
+  const app = new App();
+
+  @app.route("/users/:id")
+  class User {
+    render({ html }: any) {
+      return html`<div>user</div>`;
+    }
+  }
+
+  @app.route("/users/new")
+  class NewUser {
+    render({ html }: any) {
+      return html`<div>new</div>`;
+    }
+  }
+
+  assertEquals(app.match("/users/new")?.route.page, NewUser);
+  assertEquals(app.match("/users/42")?.route.page, User);
+  assertEquals(app.match("/users/42")?.params, { id: "42" });
+  assertEquals(app.match("/users"), null);
+});
+
+Deno.test("App.match - decodes params", () => {
+  const app = new App();
+
+  @app.route("/tags/:tag")
+  class _Tag {
+    render({ html }: any) {
+      return html``;
+    }
+  }
+
+  assertEquals(app.match("/tags/hello%20world")?.params, {
+    tag: "hello world",
+  });
+});
+
+Deno.test("App.match - wildcard captures the rest of the path", () => {
+  const app = new App();
+
+  @app.route("/docs/*rest")
+  class Docs {
+    render({ html }: any) {
+      return html``;
+    }
+  }
+
+  @app.route("/docs")
+  class DocsIndex {
+    render({ html }: any) {
+      return html``;
+    }
+  }
+
+  assertEquals(app.match("/docs/guide/routing")?.params, {
+    rest: "guide/routing",
+  });
+  assertEquals(app.match("/docs/guide")?.route.page, Docs);
+  assertEquals(app.match("/docs")?.route.page, DocsIndex);
+});
+
+Deno.test("App.match - optional segments", () => {
+  const app = new App();
+
+  @app.route("/posts/:page?")
+  class _Posts {
+    render({ html }: any) {
+      return html``;
+    }
+  }
+
+  assertEquals(app.match("/posts")?.params, {});
+  assertEquals(app.match("/posts/2")?.params, { page: "2" });
+  assertEquals(app.match("/posts/2/3"), null);
+});
+
+Deno.test("App.handle - passes params to render", async () => {
+  const app = new App();
+
+  @app.route("/users/:id")
+  class _User {
+    render({ html, params }: any) {
+      return html`<h1>${params.id}</h1>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/users/7"));
+
+  assertEquals(res.status, 200);
+  assertEquals(await res.text(), "<h1>7</h1>");
+});
+
+Deno.test("App.handle - unknown path renders the default 404 page", async () => {
+  const app = new App();
+
+  const res = await app.handle(new Request("http://localhost/missing"));
+
+  assertEquals(res.status, 404);
+  assertEquals((await res.text()).includes("/missing"), true);
+});
+
+Deno.test("App.handle - renders the registered not-found page", async () => {
+  const app = new App();
+
+  @app.notFound()
+  class _Missing {
+    render({ html, req }: any) {
+      return html`<h1>Nothing at ${new URL(req.url).pathname}</h1>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/nope"));
+
+  assertEquals(res.status, 404);
+  assertEquals(await res.text(), "<h1>Nothing at /nope</h1>");
+});
+
+Deno.test("App.handle - renders the registered error page", async () => {
+  const app = new App();
+
+  @app.route("/")
+  class _Broken {
+    render(): string {
+      throw new Error("boom");
+    }
+  }
+
+  @app.error()
+  class _Oops {
+    render({ html, error, req }: any) {
+      return html`<p>${error.message} at ${new URL(req.url).pathname}</p>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/"));
+
+  assertEquals(res.status, 500);
+  assertEquals(await res.text(), "<p>boom at /</p>");
+});
+
+Deno.test("App.handle - default error page shows the stack only in dev", async () => {
+  function brokenApp(dev: boolean) {
+    const app = new App({ dev });
+
+    @app.route("/")
+    class _Broken {
+      render(): string {
+        throw new Error("boom");
+      }
+    }
+
+    return app;
+  }
+
+  const prodRes = await brokenApp(false).handle(
+    new Request("http://localhost/"),
+  );
+  const devRes = await brokenApp(true).handle(new Request("http://localhost/"));
+
+  assertEquals(prodRes.status, 500);
+  assertEquals((await prodRes.text()).includes("Error: boom"), false);
+  assertEquals(devRes.status, 500);
+  assertEquals((await devRes.text()).includes("Error: boom"), true);
+});
+
+Deno.test("App.handle - pages set status and headers", async () => {
+  const app = new App();
+
+  @app.route("/created")
+  class _Created {
+    render({ html, response }: any) {
+      response.status(201).header("x-page", "created");
+      return html`<p>created</p>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/created"));
+
+  assertEquals(res.status, 201);
+  assertEquals(res.headers.get("x-page"), "created");
+  assertEquals(res.headers.get("content-type"), "text/html; charset=utf8");
+  assertEquals(await res.text(), "<p>created</p>");
+});
+
+Deno.test("App.handle - pages set cookies", async () => {
+  const app = new App();
+
+  @app.route("/")
+  class _Home {
+    render({ html, response }: any) {
+      response
+        .cookie("theme", "dark")
+        .cookie("session", "abc", { httpOnly: true, maxAge: 60 });
+      return html`<p>home</p>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/"));
+
+  assertEquals(res.headers.getSetCookie(), [
+    "theme=dark; Path=/",
+    "session=abc; Path=/; Max-Age=60; HttpOnly",
+  ]);
+});
+
+Deno.test("App.handle - ctx.redirect redirects and keeps cookies", async () => {
+  const app = new App();
+
+  @app.route("/logout")
+  class _Logout {
+    render({ response, redirect }: any): string {
+      response.cookie("session", "", { maxAge: 0 });
+      return redirect("/login", 303);
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/logout"));
+
+  assertEquals(res.status, 303);
+  assertEquals(res.headers.get("location"), "/login");
+  assertEquals(res.headers.getSetCookie(), ["session=; Path=/; Max-Age=0"]);
+});
+
+Deno.test("App.handle - Redirect thrown from a child component", async () => {
+  const app = new App();
+
+  class Guard {
+    render(): string {
+      throw new Redirect("/login");
+    }
+  }
+
+  @app.route("/admin")
+  class _Admin {
+    render({ html }: any) {
+      return html`<div>${new Guard()}</div>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/admin"));
+
+  assertEquals(res.status, 302);
+  assertEquals(res.headers.get("location"), "/login");
+});
+
+Deno.test("App.handle - POST handler result reaches the re-render", async () => {
+  const app = new App();
+
+  @app.route("/signup")
+  class _Signup {
+    post(form: FormData, { response }: any) {
+      const email = String(form.get("email") ?? "");
+      if (!email.includes("@")) {
+        response.status(422);
+        return { error: "Invalid email", email };
+      }
+      return { email };
+    }
+
+    render({ html, action }: any) {
+      return html`<form method="post"><input name="email" value=${
+        action?.email ?? ""
+      }>${action?.error && html`<p>${action.error}</p>`}</form>`;
+    }
+  }
+
+  const res = await app.handle(
+    new Request("http://localhost/signup", {
+      method: "POST",
+      body: new URLSearchParams({ email: "nope" }),
+    }),
+  );
+  const text = await res.text();
+
+  assertEquals(res.status, 422);
+  assertEquals(text.includes('value="nope"'), true);
+  assertEquals(text.includes("<p>Invalid email</p>"), true);
+});
+
+Deno.test("App.handle - named form actions", async () => {
+  const app = new App();
+
+  @app.route("/todos")
+  class _Todos {
+    actions = {
+      add: (form: FormData) => `added ${form.get("title")}`,
+      clear: () => "cleared",
+    };
+
+    render({ html, action }: any) {
+      return html`<p>${action ?? "idle"}</p>`;
+    }
+  }
+
+  const form = new FormData();
+  form.set("title", "milk");
+  const res = await app.handle(
+    new Request("http://localhost/todos?/add", { method: "POST", body: form }),
+  );
+
+  assertEquals(await res.text(), "<p>added milk</p>");
+});
+
+Deno.test("App.handle - JSON bodies and method handlers", async () => {
+  const app = new App();
+
+  @app.route("/items/:id")
+  class _Item {
+    put(body: any, { params }: any) {
+      return `${params.id}: ${body.name}`;
+    }
+
+    render({ html, action }: any) {
+      return html`<p>${action}</p>`;
+    }
+  }
+
+  const res = await app.handle(
+    new Request("http://localhost/items/3", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "lamp" }),
+    }),
+  );
+
+  assertEquals(await res.text(), "<p>3: lamp</p>");
+});
+
+Deno.test("App.handle - POST-redirect-GET", async () => {
+  const app = new App();
+
+  @app.route("/login")
+  class _Login {
+    post(_form: FormData, { response, redirect }: any) {
+      response.cookie("session", "abc");
+      redirect("/dashboard", 303);
+    }
+
+    render({ html }: any) {
+      return html`<form method="post"></form>`;
+    }
+  }
+
+  const res = await app.handle(
+    new Request("http://localhost/login", {
+      method: "POST",
+      body: new URLSearchParams(),
+    }),
+  );
+
+  assertEquals(res.status, 303);
+  assertEquals(res.headers.get("location"), "/dashboard");
+  assertEquals(res.headers.getSetCookie(), ["session=abc; Path=/"]);
+});
+
+Deno.test("App.handle - unsupported method is a 405", async () => {
+  const app = new App();
+
+  @app.route("/")
+  class _Home {
+    post() {}
+
+    render({ html }: any) {
+      return html``;
+    }
+  }
+
+  const res = await app.handle(
+    new Request("http://localhost/", { method: "DELETE" }),
+  );
+
+  assertEquals(res.status, 405);
+  assertEquals(res.headers.get("allow"), "GET, HEAD, POST");
+});
+
+Deno.test("App.handle - nested layouts wrap the page", async () => {
+  const app = new App();
+
+  @app.layout("/")
+  class _Root {
+    render({ html, slot }: any) {
+      return html`<body>${slot}</body>`;
+    }
+  }
+
+  @app.layout("/admin")
+  class _Admin {
+    render({ html, slot, params }: any) {
+      return html`<nav>admin ${params.id}</nav><main>${slot}</main>`;
+    }
+  }
+
+  @app.route("/admin/users/:id")
+  class _User {
+    render({ html, params }: any) {
+      return html`<h1>${params.id}</h1>`;
+    }
+  }
+
+  @app.route("/about")
+  class _About {
+    render({ html }: any) {
+      return html`<h1>about</h1>`;
+    }
+  }
+
+  const admin = await app.handle(new Request("http://localhost/admin/users/9"));
+  const about = await app.handle(new Request("http://localhost/about"));
+
+  assertEquals(
+    await admin.text(),
+    "<body><nav>admin 9</nav><main><h1>9</h1></main></body>",
+  );
+  assertEquals(await about.text(), "<body><h1>about</h1></body>");
+});
+
+Deno.test("App.handle - layouts have their own handlers", async () => {
+  const app = new App();
+
+  @app.layout("/")
+  class _Shell {
+    open = false;
+    render({ html, slot }: any) {
+      return html`<button onclick=${() =>
+        this.open = !this.open}>menu</button>${slot}`;
+    }
+  }
+
+  @app.route("/")
+  class _Home {
+    count = 0;
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const text = await (await app.handle(new Request("http://localhost/")))
+    .text();
+
+  assertEquals(text.includes('data-zid="_0"'), true);
+  assertEquals(text.includes("<!--zt:_1-->"), true);
+  assertEquals(text.includes('data-zid="_2"'), true);
+  assertEquals(text.includes("$open = !$open"), true);
+  assertEquals(text.includes("$count++"), true);
+});
+
+Deno.test("App.handle - streams deferred content into the page", async () => {
+  const app = new App();
+
+  @app.route("/")
+  class _Home {
+    render({ html }: any) {
+      return html`<body>${new Await({
+        promise: Promise.resolve("done"),
+        loading: "loading",
+        then: (value) => html`<p>${value}</p>`,
+      })}</body>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/"));
+  const text = await res.text();
+
+  assertEquals(res.body instanceof ReadableStream, true);
+  assertEquals(
+    text.startsWith('<body><span data-zid="_0">loading</span>'),
+    true,
+  );
+  assertEquals(
+    /<template data-zs="_0"><p>done<\/p><\/template><script nonce="[^"]+">__zswap\("_0"\)<\/script><\/body>$/
+      .test(text),
+    true,
+  );
+});
+
+Deno.test("App.handle - stamps the request's nonce on every script", async () => {
+  const app = new App({ csp: true });
+  const nonces: string[] = [];
+
+  @app.route("/")
+  class _Home {
+    open = false;
+    render({ html, nonce }: any) {
+      nonces.push(nonce);
+      return html`<body><button onclick=${() =>
+        this.open = !this.open}>${this.open}</button>${new Await({
+        promise: Promise.resolve("done"),
+        then: (value) => html`<p>${value}</p>`,
+      })}</body>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/"));
+  const text = await res.text();
+  await app.handle(new Request("http://localhost/"));
+  const [nonce, next] = nonces;
+
+  assertEquals(
+    res.headers.get("content-security-policy"),
+    `script-src 'nonce-${nonce}' 'strict-dynamic'; object-src 'none'; base-uri 'none'`,
+  );
+  assertEquals(nonce.length > 0 && nonce !== next, true);
+  assertEquals(text.match(/<script/g)?.length, 4);
+  assertEquals(text.split(`<script nonce="${nonce}">`).length, 4);
+  assertEquals(text.includes(`async nonce="${nonce}"></script>`), true);
+});
+
+Deno.test("App.handle - serves the client runtime at a versioned URL", async () => {
+  const app = new App();
+
+  @app.route("/")
+  class _Home {
+    count = 0;
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const text = await (await app.handle(new Request("http://localhost/")))
+    .text();
+  const [, src] = text.match(/<script src="([^"]+)" async/)!;
+  const runtime = await app.handle(new Request(`http://localhost${src}`));
+
+  assertEquals(/^\/_zs\/runtime\.[0-9a-f]{20}\.js$/.test(src), true);
+  assertEquals(
+    runtime.headers.get("cache-control"),
+    "public, max-age=31536000, immutable",
+  );
+  assertEquals((await runtime.text()).includes("self.__zq = {"), true);
+});
+
+Deno.test("App.handle - builds the CSP header from the nonce", async () => {
+  const app = new App({ csp: (nonce) => `script-src 'nonce-${nonce}'` });
+
+  @app.route("/")
+  class _Home {
+    render({ html, nonce }: any) {
+      return html`<p>${nonce}</p>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/"));
+  const nonce = (await res.text()).slice(3, -4);
+
+  assertEquals(
+    res.headers.get("content-security-policy"),
+    `script-src 'nonce-${nonce}'`,
+  );
+});
+
+Deno.test("App.handle - serves component scripts as hash-addressed files", async () => {
+  const app = new App({ externalScripts: true });
+
+  @app.route("/")
+  class _Home {
+    count = 0;
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const text = await (await app.handle(new Request("http://localhost/")))
+    .text();
+  const [, src] = text.match(/<script src="([^"]+)" nonce="[^"]+"><\/script>/)!;
+  const again = await (await app.handle(new Request("http://localhost/")))
+    .text();
+  const script = await app.handle(new Request(`http://localhost${src}`));
+
+  assertEquals(/^\/_zs\/[0-9a-f]{20}\.js$/.test(src), true);
+  assertEquals(again.includes(src), true);
+  assertEquals(
+    script.headers.get("cache-control"),
+    "public, max-age=31536000, immutable",
+  );
+  assertEquals((await script.text()).includes("_0.onclick = () =>"), true);
+  assertEquals(
+    (await app.handle(new Request("http://localhost/_zs/missing.js"))).status,
+    404,
+  );
+});
+
+Deno.test("createHtmlFactory - awaits async child renders", async () => {
+  class Child {
+    async render({ html }: any) {
+      const name = await Promise.resolve("child");
+      return html`<span>${name}</span>`;
+    }
+  }
+
+  class Parent {
+    render({ html }: any) {
+      return html`<div>${new Child()}${
+        [1, 2].map((n) => html`<i>${n}</i>${new Child()}`)
+      }</div>`;
+    }
+  }
+
+  const instance = new Parent();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = instance.render({ html, ...ctx });
+
+  assertEquals(result instanceof Promise, true);
+  assertEquals(
+    getContent(await result),
+    "<div><span>child</span><i>1</i><span>child</span><i>2</i><span>child</span></div>",
+  );
+});
+
+Deno.test("createHtmlFactory - child loaders run in parallel", async () => {
+  const events: string[] = [];
+
+  class Child {
+    constructor(private name: string) {}
+
+    async load() {
+      events.push(`start ${this.name}`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      events.push(`end ${this.name}`);
+      return this.name.toUpperCase();
+    }
+
+    render({ html, data }: any) {
+      return html`<li>${data}</li>`;
+    }
+  }
+
+  class Parent {
+    render({ html }: any) {
+      return html`<ul>${new Child("a")}${new Child("b")}</ul>`;
+    }
+  }
+
+  const instance = new Parent();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(await instance.render({ html, ...ctx }));
+
+  assertEquals(result, "<ul><li>A</li><li>B</li></ul>");
+  assertEquals(events.slice(0, 2), ["start a", "start b"]);
+});
+
+Deno.test("App.handle - passes loaded data to async render", async () => {
+  const app = new App();
+
+  @app.route("/users/:id")
+  class _User {
+    async load({ params }: any) {
+      return await Promise.resolve({ name: `user ${params.id}` });
+    }
+
+    async render({ html, data }: any) {
+      const greeting = await Promise.resolve("hello");
+      return html`<h1>${greeting} ${data.name}</h1>`;
+    }
+  }
+
+  const res = await app.handle(new Request("http://localhost/users/5"));
+
+  assertEquals(await res.text(), "<h1>hello user 5</h1>");
+});
+
+Deno.test("App.signal - records decorated fields per instance", () => {
+  const app = new App();
+
+  class Clock {
+    @app.signal
+    time = 0;
+    label = "clock";
+    render({ html }: any) {
+      return html`<span>${this.label}</span>`;
+    }
+  }
+
+  assertEquals(declaredSignals(new Clock()), ["time"]);
+  assertEquals(declaredSignals({}), []);
+});
+
+Deno.test("createHtmlFactory - declared signals are reactive without handlers", () => {
+  const app = new App();
+
+  class Clock {
+    @app.signal
+    time = 3;
+    render({ html }: any) {
+      return html`<span>${this.time}</span>`;
+    }
+  }
+
+  const instance = new Clock();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("<span><!--zt:_0-->3</span>"), true);
+  assertEquals(result.includes("let $time = __data.state.time;"), true);
+  assertEquals(result.includes("_0.data = $time"), true);
+});
+
+Deno.test("createHtmlFactory - declared signals update when written from timers", () => {
+  const app = new App();
+
+  class Clock {
+    @app.signal
+    time = 0;
+    start() {
+      setInterval(() => this.time++, 1000);
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() =>
+        this.start()}>start</button><span>${this.time}</span>`;
+    }
+  }
+
+  const instance = new Clock();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes('setInterval(() => __wrote($time++, "time"), 1000);'),
+    true,
+  );
+  assertEquals(
+    result.includes('if (__changed.has("time")) _1.data = $time'),
+    true,
+  );
+});
+
+Deno.test("generateScript - declares decorated signals", () => {
+  const app = new App();
+
+  class Form {
+    @app.signal
+    draft = "hi";
+    render() {
+      return "";
+    }
+  }
+
+  const script = generateScript(new Form(), [], []);
+
+  assertEquals(script.includes("let $draft = __data.state.draft;"), true);
+});
+
+Deno.test("analyzeGetters - finds getters and their dependencies", () => {
+  class Cart {
+    price = 2;
+    quantity = 3;
+    get total() {
+      return this.price * this.quantity;
+    }
+    get label() {
+      return `Total: ${this.total}`;
+    }
+    render({ html }: any) {
+      return html`<span>${this.label}</span>`;
+    }
+  }
+
+  const getters = analyzeGetters(Cart);
+
+  assertEquals(getters.map((g) => g.name), ["total", "label"]);
+  assertEquals(getters[0].signals, ["price", "quantity"]);
+  assertEquals(getters[1].reads, ["total"]);
+  assertEquals(getters[1].signals, ["price", "quantity"]);
+});
+
+Deno.test("analyzeRender - getter reads count as reads of their dependencies", () => {
+  class Doubler {
+    count = 1;
+    get doubled() {
+      return this.count * 2;
+    }
+    render({ html }: any) {
+      return html`<span>${this.doubled}</span>`;
+    }
+  }
+
+  const analysis = analyzeRender(Doubler.prototype.render, Doubler);
+
+  assertEquals(analysis[0].signals, ["doubled", "count"]);
+});
+
+Deno.test("createHtmlFactory - getters become derived values on the client", () => {
+  class Doubler {
+    count = 1;
+    get doubled() {
+      return this.count * 2;
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() =>
+        this.count++}>${this.doubled}</button>`;
+    }
+  }
+
+  const instance = new Doubler();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("<!--zt:_1-->2</button>"), true);
+  assertEquals(result.includes("let $count = __data.state.count;"), true);
+  assertEquals(result.includes("let $doubled = __data.state.doubled;"), false);
+  assertEquals(
+    result.includes("const __get$doubled = () => {\n  return $count * 2;\n};"),
+    true,
+  );
+  assertEquals(result.includes("$doubled = __get$doubled();"), true);
+  assertEquals(result.includes("_1.data = $doubled"), true);
+});
+
+Deno.test("generateScript - recomputes getters in dependency order", () => {
+  const instance = { price: 2, quantity: 3, render: () => "" };
+  const bindings = [{ id: "_0", signals: ["label"], source: "this.label" }];
+  const computed = [
+    {
+      name: "label",
+      bodySource: "{ return `Total: ${this.total}`; }",
+      reads: ["total"],
+      signals: ["price", "quantity"],
+    },
+    {
+      name: "total",
+      bodySource: "{ return this.price * this.quantity; }",
+      reads: ["price", "quantity"],
+      signals: ["price", "quantity"],
+    },
+  ];
+
+  const script = generateScript(instance, bindings, [], computed);
+
+  assertEquals(script.includes("let $price = __data.state.price;"), true);
+  assertEquals(script.includes("let $label ="), true);
+  assertEquals(
+    script.indexOf(") $total = __get$total();") <
+      script.indexOf(") $label = __get$label();"),
+    true,
+  );
+});
+
+Deno.test("analyzeMethods - finds methods with their reads and writes", () => {
+  class Counter {
+    count = 0;
+    step = 2;
+    increment(by = this.step) {
+      this.count += by;
+      this.log();
+    }
+    log() {}
+    render({ html }: any) {
+      return html`<button onclick=${() => this.increment()}>+</button>`;
+    }
+  }
+
+  const [increment, log] = analyzeMethods(Counter);
+
+  assertEquals(increment.name, "increment");
+  assertEquals(increment.paramsSource, "by = this.step");
+  assertEquals(increment.reads.sort(), ["count", "log", "step"]);
+  assertEquals(increment.writes, ["count"]);
+  assertEquals(log.name, "log");
+});
+
+Deno.test("analyzeRender - follows method calls from handlers", () => {
+  class Counter {
+    count = 0;
+    total = 0;
+    increment() {
+      this.count++;
+      this.record();
+    }
+    record() {
+      this.total = this.count;
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() => this.increment()}>+</button>`;
+    }
+  }
+
+  const analysis = analyzeRender(Counter.prototype.render, Counter);
+
+  assertEquals(analysis[0].signals, ["increment", "count", "record", "total"]);
+  assertEquals(analysis[0].writes, ["count", "total"]);
+});
+
+Deno.test("createHtmlFactory - ships methods called from handlers", () => {
+  class Counter {
+    count = 0;
+    increment(by: number) {
+      this.count += by;
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() =>
+        this.increment(2)}>${this.count}</button>`;
+    }
+  }
+
+  const instance = new Counter();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("let $count = __data.state.count;"), true);
+  assertEquals(result.includes("let $increment"), false);
+  assertEquals(
+    result.includes(
+      'function $increment(by) {\n  __wrote($count += by, "count");\n}',
+    ),
+    true,
+  );
+  assertEquals(result.includes('$increment(2); __update("count");'), true);
+  assertEquals(result.includes("_1.data = $count"), true);
+});
+
+Deno.test("createHtmlFactory - ships methods called from bindings", () => {
+  class Price {
+    cents = 150;
+    format(cents: number) {
+      return (cents / 100).toFixed(2);
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() => this.cents += 50}>${
+        this.format(this.cents)
+      }</button>`;
+    }
+  }
+
+  const instance = new Price();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("-->1.50</button>"), true);
+  assertEquals(result.includes("function $format(cents) {"), true);
+  assertEquals(result.includes(".data = $format($cents)"), true);
+});
+
+Deno.test("createHtmlFactory - writes in shipped methods notify by themselves", () => {
+  class Loader {
+    items: string[] = [];
+    async reload() {
+      this.items = await fetch("/items").then((res) => res.json());
+      this.items.push("done");
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() =>
+        this.reload()}>${this.items.length}</button>`;
+    }
+  }
+
+  const instance = new Loader();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '__wrote($items = await fetch("/items").then(res => res.json()), "items");',
+    ),
+    true,
+  );
+  assertEquals(result.includes('__wrote($items.push("done"), "items");'), true);
+  assertEquals(result.includes("function __wrote(value, signal) {"), true);
+});
+
+Deno.test("analyzeRender - keeps handler parameters", () => {
+  class Field {
+    text = "";
+    render({ html }: any) {
+      return html`<input oninput=${(e: any) => this.text = e.target.value}>`;
+    }
+  }
+
+  const analysis = analyzeRender(Field.prototype.render);
+
+  assertEquals(analysis[0].paramsSource, "e");
+  assertEquals(analysis[0].writes, ["text"]);
+  assertEquals(analysis[0].hasBlockBody, false);
+  assertEquals(analysis[0].isAsyncFunction, false);
+});
+
+Deno.test("createHtmlFactory - handlers receive the event", () => {
+  class Field {
+    text = "";
+    render({ html }: any) {
+      return html`<input oninput=${(e: any) =>
+        this.text = e.target.value}><p>${this.text}</p>`;
+    }
+  }
+
+  const instance = new Field();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '_0.oninput = (e) => { __wrote($text = e.target.value, "text"); __update("text"); };',
+    ),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - block and async handlers", () => {
+  class Form {
+    status = "idle";
+    render({ html }: any) {
+      return html`<form onsubmit=${async (e: any) => {
+        e.preventDefault();
+        this.status = "saving";
+        await Promise.resolve();
+        this.status = "saved";
+      }}><button onclick=${() => {
+        if (this.status === "saving") return;
+        this.status = "idle";
+      }}>${this.status}</button><i onclick=${
+        // deno-lint-ignore require-await
+        async () => this.save()}></i></form>`;
+    }
+    async save() {
+      await Promise.resolve();
+      this.status = "saved";
+    }
+  }
+
+  const instance = new Form();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes(".onsubmit = async (e) => { try {"), true);
+  assertEquals(result.includes("await Promise.resolve();"), true);
+  assertEquals(
+    result.includes(
+      '.onclick = () => { try {\n  if ($status === "saving") return;',
+    ),
+    true,
+  );
+  assertEquals(result.includes('} finally { __update("status"); } };'), true);
+  assertEquals(
+    result.includes(
+      '.onclick = async () => { await ($save()); __update("status"); };',
+    ),
+    true,
+  );
+});
+
+Deno.test("analyzeRender - bind: marks the field as written", () => {
+  class Form {
+    name = "";
+    render({ html }: any) {
+      return html`<input bind:value=${this.name}>`;
+    }
+  }
+
+  const analysis = analyzeRender(Form.prototype.render);
+
+  assertEquals(analysis[0].bindProperty, "value");
+  assertEquals(analysis[0].writes, ["name"]);
+  assertEquals(analysis[0].isEvent, false);
+});
+
+Deno.test("createHtmlFactory - bind:value on text and number inputs", () => {
+  class Form {
+    name = "Ada";
+    age = 36;
+    render({ html }: any) {
+      return html`<input bind:value=${this.name}><input type="number" bind:value=${this.age}>`;
+    }
+  }
+
+  const instance = new Form();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("bind:value"), false);
+  assertEquals(result.includes('<input value="Ada" data-zid="_0">'), true);
+  assertEquals(result.includes('value="36"'), true);
+  assertEquals(result.includes("_0.value = $name;"), true);
+  assertEquals(
+    result.includes(
+      '_0.addEventListener("input", (__e) => { $name = __e.target.value; __update("name"); });',
+    ),
+    true,
+  );
+  assertEquals(result.includes("$age = Number(__e.target.value);"), true);
+});
+
+Deno.test("createHtmlFactory - bind:checked on checkboxes", () => {
+  class Form {
+    agree = true;
+    render({ html }: any) {
+      return html`<input type="checkbox" bind:checked=${this.agree}>`;
+    }
+  }
+
+  const instance = new Form();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("checked"), true);
+  assertEquals(result.includes("_0.checked = $agree;"), true);
+  assertEquals(result.includes("$agree = __e.target.checked;"), true);
+});
+
+Deno.test("createHtmlFactory - bind:value on selects and textareas", () => {
+  class Form {
+    tags = ["b"];
+    bio = "</textarea><script>";
+    render({ html }: any) {
+      return html`<select multiple bind:value=${this.tags}><option value="a">A</option><option value="b">B</option></select><textarea bind:value=${this.bio}></textarea>`;
+    }
+  }
+
+  const instance = new Form();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('<option value="a">'), true);
+  assertEquals(result.includes('<option selected value="b">'), true);
+  assertEquals(
+    result.includes(
+      "for (const o of _0.options) o.selected = $tags.includes(o.value);",
+    ),
+    true,
+  );
+  assertEquals(
+    result.includes(
+      "$tags = Array.from(__e.target.selectedOptions, (o) => o.value);",
+    ),
+    true,
+  );
+  assertEquals(
+    result.includes("&lt;/textarea&gt;&lt;script&gt;</textarea>"),
+    true,
+  );
+});
+
+Deno.test("generateScript - reactive value attributes set the live property", () => {
+  const instance = { text: "hi", render: () => "" };
+  const bindings = [{
+    id: "_0",
+    signals: ["text"],
+    source: "this.text",
+    attribute: "value",
+  }];
+
+  const script = generateScript(instance, bindings, []);
+
+  assertEquals(script.includes("_0.value = $text;"), true);
+  assertEquals(script.includes("setAttribute"), false);
+});
+
+Deno.test("analyzeRender - array mutations count as writes", () => {
+  class Todos {
+    items = ["a"];
+    render({ html }: any) {
+      return html`<button onclick=${() => this.items.push("b")}>Add</button>`;
+    }
+  }
+
+  const analysis = analyzeRender(Todos.prototype.render);
+
+  assertEquals(analysis[0].writes, ["items"]);
+});
+
+Deno.test("analyzeRender - compiles each() row templates", () => {
+  class Todos {
+    items = [{ id: 1, text: "a" }];
+    render({ html }: any) {
+      return html`<ul>${
+        each(
+          this.items,
+          (t) => t.id,
+          (t) =>
+            html`<li class=${t.text}>${t.text}<button onclick=${() =>
+              this.items = this.items.filter((x) => x !== t)}>x</button></li>`,
+        )
+      }</ul>`;
+    }
+  }
+
+  const { each: list } = analyzeRender(Todos.prototype.render)[0];
+
+  assertEquals(list?.itemsSource, "this.items");
+  assertEquals(list?.keySource, "t => t.id");
+  assertEquals(list?.paramsSource, "t");
+  assertEquals(
+    list?.template,
+    '`<li${__attr("class", t.text)}>${__esc(t.text)}<button data-zev-0-2="">x</button></li>`',
+  );
+  assertEquals(list?.handlers[0].event, "onclick");
+  assertEquals(list?.handlers[0].attr, "data-zev-0-2");
+});
+
+Deno.test("createHtmlFactory - each() renders keyed rows between markers", () => {
+  class Todos {
+    items = [{ id: 1, text: "a" }, { id: 2, text: "<b>" }];
+    render({ html }: any) {
+      return html`<ul>${
+        each(
+          this.items,
+          (t) => t.id,
+          (t) =>
+            html`<li>${t.text}<button onclick=${() =>
+              this.items = this.items.filter((x) => x !== t)}>x</button></li>`,
+        )
+      }</ul>`;
+    }
+  }
+
+  const instance = new Todos();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '<ul><!--zl:_0--><li>a<button data-zev-0-1="">x</button></li><li>&lt;b&gt;<button data-zev-0-1="">x</button></li><!--/zl:_0--></ul>',
+    ),
+    true,
+  );
+  assertEquals(result.includes("[object Object]"), false);
+  assertEquals(
+    result.includes(
+      "const _0 = __anchor(__data.ids[0], $items, __key_0, __bind_0);",
+    ),
+    true,
+  );
+  assertEquals(
+    result.includes("__list(_0, $items, __key_0, __create_0);"),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - static each() lists render plain rows", () => {
+  class Names {
+    names = ["a", "b"];
+    render({ html }: any) {
+      return html`<ul>${
+        each(this.names, (n) => n, (n) => html`<li>${n}</li>`)
+      }</ul>`;
+    }
+  }
+
+  const instance = new Names();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result, "<ul><li>a</li><li>b</li></ul>");
+});
+
+Deno.test("analyzeRender - compiles conditional block branches", () => {
+  class Panel {
+    open = false;
+    render({ html }: any) {
+      return html`<div>${
+        this.open
+          ? html`<button onclick=${() => this.open = false}>Close</button>`
+          : html`<em>closed</em>`
+      }</div>`;
+    }
+  }
+
+  const { block } = analyzeRender(Panel.prototype.render)[0];
+
+  assertEquals(block?.branches.length, 2);
+  assertEquals(
+    block?.source,
+    '(this.open ? ({ __html: `<button data-zev-0-0="">Close</button>` }) : ({ __html: `<em>closed</em>` }))',
+  );
+  assertEquals(block?.handlers[0].event, "onclick");
+});
+
+Deno.test("createHtmlFactory - reactive conditional blocks render between markers", () => {
+  class Panel {
+    open = true;
+    render({ html }: any) {
+      return html`<div>${
+        this.open &&
+        html`<button onclick=${() => this.open = false}>Close</button>`
+      }</div>`;
+    }
+  }
+
+  const instance = new Panel();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '<div><!--zb:_0--><button data-zev-0-0="">Close</button><!--/zb:_0--></div>',
+    ),
+    true,
+  );
+  assertEquals(result.includes('__findAll(__b, "[data-zev-0-0]"'), true);
+  assertEquals(
+    result.includes(
+      '__patch(_0, $open && {\n  __html: `<button data-zev-0-0="">Close</button>`\n});',
+    ),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - bind: inside a conditional block", () => {
+  class Form {
+    editing = true;
+    name = "Ada";
+    render({ html }: any) {
+      return html`<div>${
+        this.editing && html`<input bind:value=${this.name}>`
+      }</div>`;
+    }
+  }
+
+  const instance = new Form();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('<input data-zev-0-0="" value="Ada">'), true);
+  assertEquals(result.includes("__h.value = $name; __h.oninput"), true);
+  assertEquals(result.includes("let $name = __data.state.name;"), true);
+});
+
+Deno.test("generateScript - only patches bindings whose signals changed", () => {
+  const instance = { a: 1, b: 2, render: () => "" };
+  const bindings = [
+    { id: "_0", signals: ["a"], source: "this.a" },
+    { id: "_1", signals: ["b"], source: "this.b" },
+  ];
+  const handlers = [{
+    id: "_2",
+    event: "onclick",
+    source: "{ a++; b++; }",
+    writes: ["a", "b"],
+    isBlock: true,
+  }];
+
+  const script = generateScript(instance, bindings, handlers);
+
+  assertEquals(
+    script.includes('if (__changed.has("a")) _0.textContent = $a;'),
+    true,
+  );
+  assertEquals(
+    script.includes('if (__changed.has("b")) _1.textContent = $b;'),
+    true,
+  );
+  assertEquals(script.includes('finally { __update("a", "b"); }'), true);
+  assertEquals(
+    script.includes("if (__dirty.size === 0) queueMicrotask(__flush);"),
+    true,
+  );
+});
+
+Deno.test("generateScript - handlers without known writes update everything", () => {
+  const instance = { a: 1, render: () => "" };
+  const bindings = [{ id: "_0", signals: ["a"], source: "this.a" }];
+  const handlers = [{
+    id: "_1",
+    event: "onclick",
+    source: "console.log(a)",
+    writes: [],
+  }];
+
+  const script = generateScript(instance, bindings, handlers);
+
+  assertEquals(script.includes("console.log(a); __update(); };"), true);
+  assertEquals(
+    script.includes('if (signals.length === 0) signals = ["a"];'),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - reactive text holes keep sibling text", () => {
+  class Progress {
+    count = 1;
+    max = 10;
+    render({ html }: any) {
+      return html`<p onclick=${() =>
+        this.max = this.count++}>Count: ${this.count} of ${this.max}</p>`;
+    }
+  }
+
+  const instance = new Progress();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '<p data-zid="_0">Count: <!--zt:_1-->1 of <!--zt:_2-->10</p>',
+    ),
+    true,
+  );
+  assertEquals(
+    result.includes("const _1 = __text(__data.ids[1], __data.text[0]);"),
+    true,
+  );
+  assertEquals(
+    result.includes("const _2 = __text(__data.ids[2], __data.text[1]);"),
+    true,
+  );
+  assertEquals(result.includes('\\"text\\":[1,2]'), true);
+  assertEquals(
+    result.includes('if (__changed.has("count")) _1.data = $count;'),
+    true,
+  );
+  assertEquals(result.includes("textContent"), false);
+});
+
+Deno.test("analyzeTemplates - analyses nested templates separately", () => {
+  class List {
+    items = ["a"];
+    count = 0;
+    render({ html }: any) {
+      return html`<ul>${
+        this.items.map((item) => html`<li title=${item}>${item}</li>`)
+      }</ul><button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const templates = analyzeTemplates(List.prototype.render);
+
+  assertEquals(templates.length, 2);
+  assertEquals(templates[0].nested, false);
+  assertEquals(templates[0].expressions.length, 3);
+  assertEquals(templates[0].expressions[1].isEvent, true);
+  assertEquals(templates[1].nested, true);
+  assertEquals(templates[1].raw, ["<li title=", ">", "</li>"]);
+  assertEquals(templates[1].expressions[0].source, "item");
+  assertEquals(analyzeRender(List.prototype.render).length, 3);
+});
+
+Deno.test("createHtmlFactory - nested map templates use their own analysis", () => {
+  class List {
+    items = ["a", "b"];
+    count = 0;
+    render({ html }: any) {
+      return html`<ul>${
+        this.items.map((item) => html`<li title=${item}>${item}</li>`)
+      }</ul><button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const instance = new List();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes('<ul><li title="a">a</li><li title="b">b</li></ul>'),
+    true,
+  );
+  assertEquals(result.includes('<button data-zid="_0">'), true);
+  assertEquals(result.split("<script>").length, 2);
+});
+
+Deno.test("createHtmlFactory - nested handlers share the outer script", () => {
+  class Picker {
+    options = ["a", "b"];
+    picked = "";
+    render({ html }: any) {
+      return html`<div>${
+        this.options.map((option) =>
+          html`<button onclick=${() => this.picked = "x"}>${option}</button>`
+        )
+      }<p>${this.picked}</p></div>`;
+    }
+  }
+
+  const instance = new Picker();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.split("<script>").length, 2);
+  assertEquals(result.indexOf("<script>") > result.indexOf("</div>"), true);
+  assertEquals(result.includes("_0.onclick"), true);
+  assertEquals(result.includes("_1.onclick"), true);
+});
+
+Deno.test("createHtmlFactory - templates in conditionals match their literal", () => {
+  class Greeting {
+    name = "Ada";
+    loud = false;
+    render({ html }: any) {
+      return html`<div>${
+        this.loud ? html`<b>${this.name}</b>` : html`<i>${this.name}</i>`
+      }</div>`;
+    }
+  }
+
+  const instance = new Greeting();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result, "<div><i>Ada</i></div>");
+});
+
+Deno.test("createHtmlFactory - literals with the same strings share their analysis", () => {
+  class Pair {
+    x = "a";
+    render({ html }: any) {
+      return html`<div>${[
+        html`<i>${this.x}</i>`,
+        html`<i>${this.x}</i>`,
+      ]}</div><button onclick=${() => this.x = "c"}></button>`;
+    }
+  }
+
+  const instance = new Pair();
+  const ctx = { req: new Request("http://localhost/"), strict: true };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes("<i><!--zt:_0-->a</i><i><!--zt:_1-->a</i>"),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - strict mode fails on literals it can't tell apart", () => {
+  class Pair {
+    x = "a";
+    y = "b";
+    render({ html }: any) {
+      return html`<div>${[
+        html`<i>${this.x}</i>`,
+        html`<i>${this.y}</i>`,
+      ]}</div><button onclick=${() => this.y = "c"}></button>`;
+    }
+  }
+
+  const instance = new Pair();
+  const ctx = { req: new Request("http://localhost/"), strict: true };
+  const html = createHtmlFactory(instance, ctx);
+
+  assertThrows(
+    () => instance.render({ html, ...ctx }),
+    DiagnosticError,
+    "this html literal has the same markup as the one at 4:9, so they can't be told apart; make their markup differ",
+  );
+});
+
+Deno.test("createHtmlFactory - literals it can't tell apart get no analysis", () => {
+  class Pair {
+    skip = true;
+    x = "a";
+    y = "b";
+    render({ html }: any) {
+      return html`<div>${[
+        this.skip ? null : html`<i>${this.x}</i>`,
+        html`<i>${this.y}</i>`,
+      ]}</div><button onclick=${() => this.x = "c"}></button>`;
+    }
+  }
+
+  const warnings: unknown[] = [];
+  const warn = console.warn;
+  console.warn = (message: unknown) => warnings.push(message);
+  let result: string;
+  try {
+    const instance = new Pair();
+    const ctx = { req: new Request("http://localhost/"), dev: true };
+    const html = createHtmlFactory(instance, ctx);
+    result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+  } finally {
+    console.warn = warn;
+  }
+
+  assertEquals(result.includes("<i>b</i>"), true);
+  assertEquals(result.includes("_0.data = $x"), false);
+  assertEquals(warnings.length, 1);
+});
+
+Deno.test("createHtmlFactory - instances of a component share their client code", () => {
+  class Counter {
+    count: number;
+    constructor(start: number) {
+      this.count = start;
+    }
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+  class Page {
+    render({ html }: any) {
+      return html`<div>${new Counter(1)}${new Counter(5)}${new Counter(
+        9,
+      )}</div>`;
+    }
+  }
+
+  const instance = new Page();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.match(/<script src="\/_zs\/runtime\./g)?.length, 1);
+  assertEquals(result.match(/function \(__data, __z\)/g)?.length, 1);
+  assertEquals(result.match(/\(self\.__zq \?\?= \[\]\)\.push/g)?.length, 3);
+  assertEquals(
+    result.includes(
+      '"{\\"ids\\":[\\"_2\\",\\"_3\\"],\\"state\\":{\\"count\\":5},\\"text\\":[1]}"',
+    ),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - streamed templates get their own script", async () => {
+  class Later {
+    count = 0;
+    render({ html }: any) {
+      return html`<div>${new Await({
+        promise: Promise.resolve(1),
+        then: (n: number) =>
+          html`<button onclick=${() => this.count++}>${n}</button>`,
+      })}</div>`;
+    }
+  }
+
+  const instance = new Later();
+  const deferred: Deferred[] = [];
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx, { value: 0 }, deferred);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+  const streamed = await deferred[0].content;
+
+  assertEquals(result, '<div><span data-zid="_0"></span></div>');
+  assertEquals(streamed.includes('<button data-zid="_1">1</button>'), true);
+  assertEquals(streamed.includes("_0.onclick"), true);
+  assertEquals(streamed.includes('\\"ids\\":[\\"_1\\"]'), true);
+});
+
+Deno.test("createHtmlFactory - client code leaves strings and locals alone", () => {
+  class Note {
+    text = "";
+    render({ html }: any) {
+      return html`<button onclick=${() => {
+        const text = "see this.text";
+        this["text"] = text;
+      }}>${this.text}</button>`;
+    }
+  }
+
+  const instance = new Note();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes("let $text = __data.state.text;"), true);
+  assertEquals(result.includes('const text = "see this.text";'), true);
+  assertEquals(result.includes('__wrote($text = text, "text");'), true);
+  assertEquals(result.includes('__update("text")'), true);
+});
+
+Deno.test("generateScript - strips TypeScript syntax", () => {
+  const instance = { count: 0, render: () => "" };
+  const bindings = [{
+    id: "_0",
+    signals: ["count"],
+    source: "this.count as number",
+  }];
+  const handlers = [{
+    id: "_1",
+    event: "onclick",
+    params: "e: MouseEvent",
+    source: "this.count += (e.detail satisfies number)!",
+    writes: ["count"],
+  }];
+
+  const script = generateScript(instance, bindings, handlers);
+
+  assertEquals(script.includes("_0.textContent = $count;"), true);
+  assertEquals(
+    script.includes("_1.onclick = (e) => { __wrote($count += e.detail,"),
+    true,
+  );
+});
+
+Deno.test("generateScript - signal names avoid identifiers in the source", () => {
+  const instance = { count: 0, render: () => "" };
+  const bindings = [{
+    id: "_0",
+    signals: ["count"],
+    source: "this.count + $count",
+  }];
+  const handlers: any[] = [];
+
+  const script = generateScript(instance, bindings, handlers);
+
+  assertEquals(script.includes("let $$count = __data.state.count;"), true);
+  assertEquals(script.includes("_0.textContent = $$count + $count;"), true);
+});
+
+Deno.test("analyzeRender - finds the render variables client code captures", () => {
+  class Stepper {
+    count = 0;
+    render({ html, params }: any) {
+      const step = Number(params.step);
+      const max = step * 10;
+      let last = 0;
+      last = step;
+      return html`<button data-step=${step} onclick=${() =>
+        this.count = Math.min(
+          this.count + step + last,
+          max,
+        )}>${params.label}</button>`;
+    }
+  }
+
+  const analysis = analyzeRender(Stepper.prototype.render);
+
+  assertEquals(analysis[0].captures, [{ name: "step" }]);
+  assertEquals(analysis[1].captures, [
+    { name: "step" },
+    { name: "last", error: "it's reassigned" },
+    {
+      name: "max",
+      error:
+        "only render knows its value; render it as is, like data-max=${max}, to send it",
+    },
+  ]);
+  assertEquals(analysis[2].captures, [{ name: "params" }]);
+});
+
+Deno.test("analyzeTemplates - .map() rows over a computed array can't capture their item", () => {
+  class Todos {
+    items = [{ id: 1, done: false }];
+    picked = 0;
+    render({ html }: any) {
+      return html`<ul>${
+        this.items.filter((item) => !item.done).map((item) =>
+          html`<li onclick=${() => this.picked = item.id}>${item.id}</li>`
+        )
+      }</ul>`;
+    }
+  }
+
+  const analysis = analyzeTemplates(Todos.prototype.render);
+
+  assertEquals(analysis[1].expressions[0].captures, [{
+    name: "item",
+    error:
+      "its .map() is called on `this.items.filter(item => !item.done)`, which only render computes; map over a field, getter or variable",
+  }]);
+});
+
+Deno.test("createHtmlFactory - handlers capture render variables", () => {
+  class Stepper {
+    count = 0;
+    render({ html, params }: any) {
+      const step = Number(params.step);
+      return html`<button data-step=${step} onclick=${() =>
+        this.count += step}>${this.count * step}</button>`;
+    }
+  }
+
+  const instance = new Stepper();
+  const ctx = { req: new Request("http://localhost/"), params: { step: "2" } };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes(
+      '_0.onclick = () => { __wrote($count += __data.captured[1], "count");',
+    ),
+    true,
+  );
+  assertEquals(result.includes("_1.data = $count * __data.captured[0];"), true);
+  assertEquals(result.includes('\\"captured\\":[2,2]'), true);
+});
+
+Deno.test("createHtmlFactory - captured values are the ones rendered", () => {
+  class Tickets {
+    issued = 0;
+    claimed = 0;
+    issue() {
+      this.issued++;
+      return Math.random();
+    }
+    render({ html }: any) {
+      const ticket = this.issue();
+      return html`<button data-ticket=${ticket} onclick=${() =>
+        this.claimed = ticket}>Claim</button>`;
+    }
+  }
+
+  const instance = new Tickets();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  const ticket = result.match(/data-ticket="([^"]*)"/)![1];
+  assertEquals(instance.issued, 1);
+  assertEquals(result.includes(`\\"captured\\":[${ticket}]`), true);
+});
+
+Deno.test("createHtmlFactory - strict mode fails on render locals that aren't rendered", () => {
+  class Stepper {
+    count = 0;
+    render({ html, params }: any) {
+      const step = Number(params.step);
+      return html`<button onclick=${() => this.count += step}>+</button>`;
+    }
+  }
+
+  const instance = new Stepper();
+  const ctx = {
+    req: new Request("http://localhost/"),
+    params: { step: "2" },
+    strict: true,
+  };
+  const html = createHtmlFactory(instance, ctx);
+
+  assertThrows(
+    () => instance.render({ html, ...ctx }),
+    DiagnosticError,
+    'can\'t capture "step": only render knows its value; render it as is, like data-step=${step}, to send it',
+  );
+});
+
+Deno.test("createHtmlFactory - .map() rows capture their item", () => {
+  class Todos {
+    items = [{ id: 1, done: false }, { id: 2, done: true }];
+    get done() {
+      return this.items.filter((item) => item.done);
+    }
+    render({ html }: any) {
+      return html`<ul>${
+        this.done.map((item) =>
+          html`<li onclick=${() =>
+            this.items = this.items.filter((i) =>
+              i.id !== item.id
+            )}>${item.id}</li>`
+        )
+      }</ul>`;
+    }
+  }
+
+  const instance = new Todos();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('<li data-zid="_0">2</li>'), true);
+  assertEquals(
+    result.includes(
+      '_0.onclick = () => { __wrote($items = $items.filter(i => i.id !== __data.captured[0].id), "items");',
+    ),
+    true,
+  );
+  assertEquals(
+    result.includes('\\"captured\\":[{\\"id\\":2,\\"done\\":true}]'),
+    true,
+  );
+});
+
+Deno.test("createHtmlFactory - .map() rows over a render local capture their item", () => {
+  class Picker {
+    selected = 0;
+    render({ html }: any) {
+      const rows = [1, 2, 3];
+      return html`<ul>${
+        rows.map((n) => html`<li onclick=${() => this.selected = n}>${n}</li>`)
+      }</ul><p>${this.selected}</p>`;
+    }
+  }
+
+  const instance = new Picker();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('<li data-zid="_2">3</li>'), true);
+  assertEquals(
+    result.includes(
+      '_2.onclick = () => { __wrote($selected = __data.captured[2], "selected");',
+    ),
+    true,
+  );
+  assertEquals(result.includes('\\"captured\\":[1,2,3]'), true);
+});
+
+Deno.test("createHtmlFactory - strict mode fails on values the client can't have", () => {
+  class Prices {
+    total = 0;
+    render({ html }: any) {
+      const format = (n: number) => n.toFixed(2);
+      return html`<button onclick=${() => this.total++}>${
+        format(this.total)
+      }</button>`;
+    }
+  }
+
+  const instance = new Prices();
+  const ctx = { req: new Request("http://localhost/"), strict: true };
+  const html = createHtmlFactory(instance, ctx);
+
+  const error = assertThrows(
+    () => instance.render({ html, ...ctx }),
+    DiagnosticError,
+  );
+  assertEquals(error.diagnostics, [{
+    component: "Prices",
+    line: 3,
+    column: 57,
+    message: `can't send "format" to the client: functions can't be serialised`,
+  }]);
+});
+
+Deno.test("createHtmlFactory - dev mode logs values the client can't have", () => {
+  class Picker {
+    picked = 0;
+    pick = () => {};
+    render({ html }: any) {
+      return html`<button onclick=${() => this.picked = this.pick.length}>
+        Pick
+      </button>`;
+    }
+  }
+
+  const warnings: unknown[] = [];
+  const warn = console.warn;
+  console.warn = (message: unknown) => warnings.push(message);
+  try {
+    const instance = new Picker();
+    const ctx = { req: new Request("http://localhost/"), dev: true };
+    const html = createHtmlFactory(instance, ctx);
+    const result = String(instance.render({ html, ...ctx }));
+    assertEquals(result.includes("<script"), true);
+  } finally {
+    console.warn = warn;
+  }
+
+  assertEquals(warnings, [
+    `Picker (render 2:37): can't send "pick" to the client: pick is a function, which can't be serialised`,
+  ]);
+});
+
+Deno.test("generateScript - signals that can't be serialised are errors", () => {
+  class Picker {
+    onPick = () => {};
+    render = () => "";
+  }
+  const handlers = [{
+    id: "_0",
+    event: "onclick",
+    source: "this.onPick()",
+    writes: [],
+    signals: ["onPick"],
+  }];
+
+  assertThrows(
+    () => generateScript(new Picker(), [], handlers),
+    Error,
+    `Can't send "onPick" to the client in Picker: onPick is a function, which can't be serialised`,
+  );
+});
+
+Deno.test("encodeState - rich values survive the trip", () => {
+  const value = {
+    when: new Date("2024-01-02T03:04:05Z"),
+    never: new Date(NaN),
+    tags: new Set(["a", "b"]),
+    counts: new Map<unknown, unknown>([["x", 1n], [2, undefined]]),
+    numbers: [NaN, -0, Infinity, 1.5],
+    missing: undefined,
+    tagged: { $t: "Date", v: "not a date" },
+    bare: Object.assign(Object.create(null), { a: 1 }),
+  };
+
+  const decoded = decodeState(JSON.stringify(encodeState(value))) as any;
+
+  assertEquals(decoded.when, value.when);
+  assertEquals(Number.isNaN(decoded.never.getTime()), true);
+  assertEquals(decoded.tags, value.tags);
+  assertEquals(decoded.counts, value.counts);
+  assertEquals(decoded.numbers, value.numbers);
+  assertEquals(Object.is(decoded.numbers[1], -0), true);
+  assertEquals("missing" in decoded && decoded.missing === undefined, true);
+  assertEquals(decoded.tagged, value.tagged);
+  assertEquals(decoded.bare, { a: 1 });
+});
+
+Deno.test("encodeState - names values that can't be serialised", () => {
+  class User {
+    constructor(public name: string) {}
+  }
+  class Money {
+    constructor(public cents: number) {}
+    toJSON() {
+      return { cents: this.cents };
+    }
+  }
+  const loop: any = { items: [] };
+  loop.items.push(loop);
+
+  assertThrows(
+    () => encodeState({ items: [{ owner: new User("Ada") }] }, "todos"),
+    TypeError,
+    "todos.items[0].owner is a User instance, which can't be serialised",
+  );
+  assertThrows(
+    () => encodeState(loop, "loop"),
+    TypeError,
+    "loop.items[0] is a circular reference, which can't be serialised",
+  );
+  assertThrows(
+    () => encodeState({ "my key": Symbol("x") }, "state"),
+    TypeError,
+    `state["my key"] is a symbol, which can't be serialised`,
+  );
+  assertEquals(encodeState(new Money(250)), { cents: 250 });
+});
+
+Deno.test("generateScript - state and source can't close the script", () => {
+  const instance = {
+    note: "</script><script>alert(1)</script>",
+    render: () => "",
+  };
+  const bindings = [{ id: "_0", signals: ["note"], source: "this.note" }];
+  const handlers = [{
+    id: "_1",
+    event: "onclick",
+    source: 'this.note = "</SCRIPT>"',
+    writes: ["note"],
+  }];
+
+  const script = generateScript(instance, bindings, handlers);
+
+  assertEquals(script.match(/<\/script/gi)?.length, 2);
+  assertEquals(script.includes("\\u003c/script>\\u003cscript>alert(1)"), true);
+  assertEquals(script.includes('$note = "<\\/SCRIPT>"'), true);
+  assertEquals(script.includes("let $note = __data.state.note;"), true);
+});
+
+Deno.test("analyzeRender - reports patterns that can't work on the client", () => {
+  class Widget {
+    count = 0;
+    save = (_count: number) => {};
+    load() {
+      return Promise.resolve(1);
+    }
+    render({ html }: any) {
+      return html`<button onclick=${"alert(1)"}>${this.count}</button>
+        <p>${this.load().finally(() => {})}</p>
+        <button onclick=${() => this.save(this.count)}>Save</button>`;
+    }
+  }
+
+  const source = Widget.prototype.render.toString();
+  const at = (text: string) => {
+    const lines = source.slice(0, source.indexOf(text)).split("\n");
+    return { line: lines.length, column: lines.at(-1)!.length + 1 };
+  };
+  const analysis = analyzeRender(Widget.prototype.render, Widget);
+
+  assertEquals(analysis[0].diagnostics, [{
+    component: "Widget",
+    ...at('"alert(1)"'),
+    message: "onclick needs a function, like onclick=${() => ...}",
+  }]);
+  assertEquals(analysis[1].diagnostics, []);
+  assertEquals(analysis[2].diagnostics, [{
+    component: "Widget",
+    ...at("this.load()"),
+    message:
+      "only promise.then(...) and promise.then(...).catch(...) are supported in templates",
+  }]);
+  assertEquals(analysis[3].diagnostics, [{
+    component: "Widget",
+    ...at("this.save("),
+    message:
+      "this.save() isn't a method of Widget, so the client can't call it",
+  }]);
+});
+
+Deno.test("createHtmlFactory - strict mode fails renders with diagnostics", () => {
+  class Link {
+    render({ html }: any) {
+      return html`<a onclick=${"go()"}>Go</a>`;
+    }
+  }
+
+  const instance = new Link();
+  const ctx = { req: new Request("http://localhost/"), strict: true };
+  const html = createHtmlFactory(instance, ctx);
+
+  const error = assertThrows(
+    () => instance.render({ html, ...ctx }),
+    DiagnosticError,
+    "onclick needs a function",
+  );
+  assertEquals(error.diagnostics.length, 1);
+});
+
+Deno.test("createHtmlFactory - dev mode logs diagnostics once", () => {
+  class Banner {
+    render({ html }: any) {
+      return html`<div onmouseover=${"highlight()"}>Hi</div>`;
+    }
+  }
+
+  const warnings: unknown[] = [];
+  const warn = console.warn;
+  console.warn = (message: unknown) => warnings.push(message);
+  try {
+    for (let i = 0; i < 2; i++) {
+      const instance = new Banner();
+      const ctx = { req: new Request("http://localhost/"), dev: true };
+      const html = createHtmlFactory(instance, ctx);
+      assertThrows(
+        () => instance.render({ html, ...ctx }),
+        TypeError,
+        "on* attributes only take functions",
+      );
+    }
+  } finally {
+    console.warn = warn;
+  }
+
+  assertEquals(warnings.length, 1);
+  assertEquals(
+    String(warnings[0]).startsWith("Banner (render "),
+    true,
+  );
+});
+
+Deno.test("sanitizeUrl - keeps safe URLs and defuses the rest", () => {
+  for (
+    const url of [
+      "/users/1",
+      "users?page=2",
+      "#top",
+      "//cdn.example.com/a.js",
+      "https://example.com",
+      "mailto:ada@example.com",
+      "tel:+123",
+    ]
+  ) {
+    assertEquals(sanitizeUrl(url), url);
+  }
+  for (
+    const url of [
+      "javascript:alert(1)",
+      " JavaScript:alert(1)",
+      "java\tscript:alert(1)",
+      "data:text/html,<script>alert(1)</script>",
+      "vbscript:msgbox",
+    ]
+  ) {
+    assertEquals(sanitizeUrl(url), `unsafe:${url}`);
+  }
+  assertEquals(
+    sanitizeUrl(unsafeUrl("javascript:void 0")),
+    "javascript:void 0",
+  );
+});
+
+Deno.test("encodeState - unsafeUrl values survive the trip", () => {
+  const url = unsafeUrl("javascript:void 0");
+  const decoded = decodeState(JSON.stringify(encodeState({ url })));
+
+  assertEquals(encodeState(url), { $t: "UnsafeUrl", v: "javascript:void 0" });
+  assertEquals(
+    sanitizeUrl((decoded as { url: unknown }).url),
+    "javascript:void 0",
+  );
+});
+
+Deno.test("createHtmlFactory - sanitises URL attributes", () => {
+  class Links {
+    render({ html }: any) {
+      const url = "javascript:alert(1)";
+      return html`<a href=${url}>a</a><img src="${url}"><form action=${"/save"}><button formaction=${url}></button></form><a href=${
+        unsafeUrl(url)
+      }>b</a>`;
+    }
+  }
+
+  const instance = new Links();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result,
+    '<a href="unsafe:javascript:alert(1)">a</a><img src="unsafe:javascript:alert(1)">' +
+      '<form action="/save"><button formaction="unsafe:javascript:alert(1)"></button></form>' +
+      '<a href="javascript:alert(1)">b</a>',
+  );
+});
+
+Deno.test("createHtmlFactory - sanitises attributes in list rows and block branches", () => {
+  const url = "javascript:alert(1)";
+  const tip = `x" onmouseover="alert(2)`;
+  class Links {
+    items = [{ id: 1, url, tip }];
+    open = true;
+    render({ html }: any) {
+      return html`<ul>${
+        each(this.items, (i) =>
+          i.id, (i) =>
+          html`<li><a href=${i.url} title="${i.tip}">a</a></li>`)
+      }</ul>${
+        this.open && html`<a href=${url} title="${tip}">b</a>`
+      }<button onclick=${() => {
+        this.items = [];
+        this.open = false;
+      }}></button>`;
+    }
+  }
+
+  const instance = new Links();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  const safe =
+    'href="unsafe:javascript:alert(1)" title="x&quot; onmouseover=&quot;alert(2)"';
+  assertEquals(result.includes(`<li><a ${safe}>a</a></li>`), true);
+  assertEquals(result.includes(`<a ${safe}>b</a>`), true);
+});
+
+Deno.test("createHtmlFactory - sanitises URL attributes after async children", async () => {
+  class Label {
+    async render({ html }: any) {
+      return html`${await Promise.resolve("tip")}`;
+    }
+  }
+  class Link {
+    render({ html }: any) {
+      return html`<a title="${new Label()}" href=${"javascript:alert(1)"}>a</a>`;
+    }
+  }
+
+  const instance = new Link();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(await instance.render({ html, ...ctx }));
+
+  assertEquals(
+    result,
+    '<a title="tip" href="unsafe:javascript:alert(1)">a</a>',
+  );
+});
+
+Deno.test("createHtmlFactory - attribute values can't close their quotes", () => {
+  class Tip {
+    render({ html }: any) {
+      const tip = `x" onmouseover="alert(1)`;
+      return html`<p title=${tip} class="a ${tip}">Hi</p>`;
+    }
+  }
+
+  const instance = new Tip();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result,
+    '<p title="x&quot; onmouseover=&quot;alert(1)" class="a x&quot; onmouseover=&quot;alert(1)">Hi</p>',
+  );
+});
+
+Deno.test("createHtmlFactory - on* attributes refuse anything but functions", () => {
+  class Banner {
+    code = "alert(1)";
+    render({ html }: any) {
+      return html`<div onclick=${this.code}>Hi</div><button onclick=${() =>
+        this.code = ""}></button>`;
+    }
+  }
+
+  const instance = new Banner();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+
+  assertThrows(
+    () => instance.render({ html, ...ctx }),
+    TypeError,
+    "Refusing to render string into onclick: on* attributes only take functions",
+  );
+});
+
+Deno.test("createHtmlFactory - on* attributes in list rows and block branches refuse strings", () => {
+  class Rows {
+    items = [{ id: 1, code: "alert(1)" }];
+    render({ html }: any) {
+      return html`<ul>${
+        each(this.items, (i) => i.id, (i) => html`<li onclick=${i.code}>a</li>`)
+      }</ul><button onclick=${() => this.items = []}></button>`;
+    }
+  }
+  class Branch {
+    open = true;
+    code = "alert(1)";
+    render({ html }: any) {
+      return html`${
+        this.open && html`<p onclick=${this.code}>b</p>`
+      }<button onclick=${() => this.open = false}></button>`;
+    }
+  }
+
+  for (const instance of [new Rows(), new Branch()]) {
+    const ctx = { req: new Request("http://localhost/") };
+    const html = createHtmlFactory(instance, ctx);
+    assertThrows(
+      () => instance.render({ html, ...ctx }),
+      TypeError,
+      "Refusing to render string into onclick: on* attributes only take functions",
+    );
+  }
+});
+
+Deno.test("createHtmlFactory - reactive URL attributes keep unsafeUrl values", () => {
+  class Link {
+    url = unsafeUrl("javascript:void 0");
+    render({ html }: any) {
+      return html`<a href=${this.url} onclick=${() =>
+        this.url = unsafeUrl("javascript:void 1")}>go</a>`;
+    }
+  }
+
+  const instance = new Link();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('href="javascript:void 0"'), true);
+  assertEquals(
+    result.includes(
+      '\\"url\\":{\\"$t\\":\\"UnsafeUrl\\",\\"v\\":\\"javascript:void 0\\"}',
+    ),
+    true,
+  );
+  assertEquals(result.includes('_0.setAttribute("href", __url($url));'), true);
+});
+
+Deno.test("createHtmlFactory - reactive URL attributes are sanitised on the client", () => {
+  class Link {
+    url = "javascript:alert(1)";
+    render({ html }: any) {
+      return html`<a href=${this.url} onclick=${() =>
+        this.url = "/next"}>go</a>`;
+    }
+  }
+
+  const instance = new Link();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(result.includes('href="unsafe:javascript:alert(1)"'), true);
+  assertEquals(result.includes('_0.setAttribute("href", __url($url));'), true);
+});
+
+Deno.test("analyzeComponent - analyses each class once", () => {
+  class Counter {
+    count = 0;
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count++}>${this.count}</button>`;
+    }
+  }
+
+  const ctx = { req: new Request("http://localhost/") };
+  const first = new Counter();
+  const second = new Counter();
+  const a = getContent(
+    first.render({ html: createHtmlFactory(first, ctx), ...ctx }) as SafeHtml,
+  );
+  const b = getContent(
+    second.render({ html: createHtmlFactory(second, ctx), ...ctx }) as SafeHtml,
+  );
+
+  assertEquals(analyzeComponent(Counter) === analyzeComponent(Counter), true);
+  assertEquals(a, b);
+});
+
+Deno.test("precompile - saved analysis is used for classes with the same source", () => {
+  const make = () =>
+    class Counter {
+      count = 0;
+      render({ html }: any) {
+        return html`<button onclick=${() =>
+          this.count++}>${this.count}</button>`;
+      }
+    };
+  const saved = JSON.parse(JSON.stringify(precompile([make()])));
+  usePrecompiled(saved);
+
+  const Loaded = make();
+  const key = analysisKey(Loaded);
+  assertEquals(Object.keys(saved), [key]);
+  assertEquals(
+    analyzeComponent(Loaded).templates === saved[key].templates,
+    true,
+  );
+
+  const instance = new Loaded();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+  assertEquals(result.includes("$count++"), true);
+
+  class Changed {
+    count = 0;
+    render({ html }: any) {
+      return html`<button onclick=${() => this.count--}>${this.count}</button>`;
+    }
+  }
+  Object.defineProperty(Changed, "name", { value: "Counter" });
+  assertEquals(analysisKey(Changed) === key, false);
+});
+
+Deno.test("precompile - saved components render without parsing their code", () => {
+  const make = () =>
+    class Stepper {
+      count = 0;
+      get double() {
+        return this.count * 2;
+      }
+      step() {
+        this.count += 1;
+      }
+      render({ html }: any) {
+        return html`<button onclick=${() =>
+          this.step()}>${this.double}</button>`;
+      }
+    };
+  // Babel can't parse `@@`, so the render would throw if it parsed the
+  // saved code instead of using the client code saved with it
+  const saved = JSON.parse(
+    JSON.stringify(precompile([make()])).replaceAll("this.", "@@ this."),
+  );
+  usePrecompiled(saved);
+
+  const instance = new (make())();
+  const ctx = { req: new Request("http://localhost/") };
+  const html = createHtmlFactory(instance, ctx);
+  const result = getContent(instance.render({ html, ...ctx }) as SafeHtml);
+
+  assertEquals(
+    result.includes("function $step() {\n  __wrote($count += 1"),
+    true,
+  );
+  assertEquals(result.includes("$double = __get$double()"), true);
+});
+
+Deno.test("App.build - writes the analysis readAnalysis loads", async () => {
+  const app = new App();
+  class Child {
+    render({ html }: any) {
+      return html`<p>child</p>`;
+    }
+  }
+  @app.route("/")
+  class Home {
+    render({ html }: any) {
+      return html`${new Child()}`;
+    }
+  }
+
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await app.build(path, [Child]);
+    const saved = JSON.parse(await Deno.readTextFile(path));
+    assertEquals(analysisKey(Home) in saved, true);
+    assertEquals(analysisKey(Child) in saved, true);
+    assertEquals(await readAnalysis(path), true);
+  } finally {
+    await Deno.remove(path);
+  }
+  assertEquals(await readAnalysis(path), false);
+});